@@ -0,0 +1,19 @@
+-- Full-text search document for conflicts: title weighted A, description B.
+-- Prisma cannot declare generated columns, so `prisma db push` creates
+-- "searchVector" as a plain tsvector column; this replaces it with the
+-- generated one and (re)creates its GIN index. Safe to run repeatedly.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'conflicts' AND column_name = 'searchVector' AND is_generated = 'ALWAYS'
+  ) THEN
+    ALTER TABLE conflicts DROP COLUMN IF EXISTS "searchVector";
+    ALTER TABLE conflicts ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+      setweight(to_tsvector('english', "title"), 'A') ||
+      setweight(to_tsvector('english', coalesce("description", '')), 'B')
+    ) STORED;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS conflicts_search_vector_idx ON conflicts USING GIN ("searchVector");
@@ -0,0 +1,111 @@
+import DataLoader from 'dataloader';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { countActorEvents, getActorsActivity, getCountriesActors } from '../services/actors';
+
+type Keys = readonly string[];
+
+// The row with each key's id, or null, in key order as DataLoader requires
+const byId = <T extends { id: string }>(keys: Keys, rows: T[]) => {
+  const rowsById = new Map(rows.map((row) => [row.id, row]));
+  return keys.map((key) => rowsById.get(key) ?? null);
+};
+
+// The rows belonging to each key, in key order; keys without rows get an empty list
+const byParent = <T>(keys: Keys, rows: T[], parentOf: (row: T) => string | null) => {
+  const groups = new Map<string, T[]>(keys.map((key) => [key, []]));
+  rows.forEach((row) => groups.get(parentOf(row) ?? '')?.push(row));
+  return keys.map((key) => groups.get(key)!);
+};
+
+const countsByKey = (keys: Keys, rows: Array<{ key: string | null; count: number }>) => {
+  const counts = new Map(rows.map((row) => [row.key, row.count]));
+  return keys.map((key) => counts.get(key) ?? 0);
+};
+
+// Conflicts per value of a foreign key column
+const conflictCounts = (column: 'countryId' | 'admin1Id' | 'admin2Id') => async (keys: Keys) => {
+  const rows = await prisma.$queryRaw<Array<{ key: string; count: number }>>`
+    SELECT c.${Prisma.raw(`"${column}"`)} AS key, COUNT(*)::int AS count
+    FROM conflicts c
+    WHERE c.${Prisma.raw(`"${column}"`)} IN (${Prisma.join(keys)})
+    GROUP BY 1
+  `;
+  return countsByKey(keys, rows);
+};
+
+// A country's top actors; the limit is part of the key as fields may ask for different numbers
+type CountryActorsKey = { countryId: string; limit: number };
+
+const countryActors = async (keys: readonly CountryActorsKey[]) => {
+  const limits = [...new Set(keys.map((key) => key.limit))];
+  const byLimit = new Map(await Promise.all(limits.map(async (limit) => [
+    limit,
+    await getCountriesActors(keys.filter((key) => key.limit === limit).map((key) => key.countryId), limit),
+  ] as const)));
+
+  return keys.map((key) => byLimit.get(key.limit)!.get(key.countryId)!);
+};
+
+/**
+ * Per-request batching for nested fields: each loader collects the keys
+ * requested by every parent in a list and loads them in one query, so a page
+ * of conflicts with their countries costs two queries rather than one per
+ * conflict. Created for each request so nothing is cached across users.
+ */
+export const createLoaders = () => ({
+  country: new DataLoader(async (ids: Keys) =>
+    byId(ids, await prisma.country.findMany({ where: { id: { in: [...ids] } } }))),
+  admin1: new DataLoader(async (ids: Keys) =>
+    byId(ids, await prisma.admin1.findMany({ where: { id: { in: [...ids] } } }))),
+  admin2: new DataLoader(async (ids: Keys) =>
+    byId(ids, await prisma.admin2.findMany({ where: { id: { in: [...ids] } } }))),
+  location: new DataLoader(async (ids: Keys) =>
+    byId(ids, await prisma.location.findMany({ where: { id: { in: [...ids] } } }))),
+
+  admin1sByCountry: new DataLoader(async (countryIds: Keys) => byParent(
+    countryIds,
+    await prisma.admin1.findMany({ where: { countryId: { in: [...countryIds] } }, orderBy: { name: 'asc' } }),
+    (admin1) => admin1.countryId
+  )),
+  admin2sByAdmin1: new DataLoader(async (admin1Ids: Keys) => byParent(
+    admin1Ids,
+    await prisma.admin2.findMany({ where: { admin1Id: { in: [...admin1Ids] } }, orderBy: { name: 'asc' } }),
+    (admin2) => admin2.admin1Id
+  )),
+  actorsByConflict: new DataLoader(async (conflictIds: Keys) => byParent(
+    conflictIds,
+    await prisma.conflictActor.findMany({ where: { conflictId: { in: [...conflictIds] } }, include: { actor: true } }),
+    (link) => link.conflictId
+  )),
+  revisionsByConflict: new DataLoader(async (conflictIds: Keys) => byParent(
+    conflictIds,
+    await prisma.conflictRevision.findMany({
+      where: { conflictId: { in: [...conflictIds] } },
+      orderBy: { version: 'desc' },
+    }),
+    (revision) => revision.conflictId
+  )),
+  subEventTypesByEventType: new DataLoader(async (eventTypeIds: Keys) => byParent(
+    eventTypeIds,
+    await prisma.subEventType.findMany({ where: { eventTypeId: { in: [...eventTypeIds] } }, orderBy: { name: 'asc' } }),
+    (subEventType) => subEventType.eventTypeId
+  )),
+
+  conflictCountByCountry: new DataLoader(conflictCounts('countryId')),
+  conflictCountByAdmin1: new DataLoader(conflictCounts('admin1Id')),
+  conflictCountByAdmin2: new DataLoader(conflictCounts('admin2Id')),
+  eventCountByActor: new DataLoader(async (actorIds: Keys) => {
+    const counts = await countActorEvents([...actorIds]);
+    return actorIds.map((id) => counts.get(id) ?? 0);
+  }),
+  activityByActor: new DataLoader(async (actorIds: Keys) => {
+    const activity = await getActorsActivity([...actorIds]);
+    return actorIds.map((id) => activity.get(id)!);
+  }),
+  actorsByCountry: new DataLoader(countryActors, {
+    cacheKeyFn: (key: CountryActorsKey) => `${key.countryId}:${key.limit}`,
+  }),
+});
+
+export type Loaders = ReturnType<typeof createLoaders>;
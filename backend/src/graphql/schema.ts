@@ -0,0 +1,685 @@
+import {
+  GraphQLBoolean,
+  GraphQLEnumType,
+  GraphQLError,
+  GraphQLFieldConfigArgumentMap,
+  GraphQLFloat,
+  GraphQLID,
+  GraphQLInputObjectType,
+  GraphQLInt,
+  GraphQLList,
+  GraphQLNonNull,
+  GraphQLNullableType,
+  GraphQLObjectType,
+  GraphQLScalarType,
+  GraphQLSchema,
+  GraphQLString,
+  valueFromASTUntyped,
+} from 'graphql';
+import { ComplexityEstimatorArgs } from 'graphql-query-complexity';
+import { Actor, Admin1, Conflict, Country, Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { JWTPayload } from '../utils/jwt';
+import { conflictFilterSchema, polygonGeometry } from '../models/conflictFilterSchema';
+import { listConflicts } from '../services/conflictList';
+import { buildConflictFilter, sqlAnd } from '../services/conflictFilters';
+import { conflictTimeseries, countConflicts, fatalityRange, TimeseriesGroup, TimeseriesInterval } from '../services/conflictStats';
+import { findCountry } from '../services/geography';
+import { Loaders } from './loaders';
+
+export type GraphQLContext = {
+  user: JWTPayload;
+  loaders: Loaders;
+};
+
+// Largest page any list field returns, matching the limit of GET /api/conflicts
+const MAX_LIMIT = 1000;
+
+const badInput = (message: string) =>
+  new GraphQLError(message, { extensions: { code: 'BAD_USER_INPUT' } });
+
+// The GraphQL counterpart of the requireRole middleware
+const requireRole = (context: GraphQLContext, roles: string[]) => {
+  if (!roles.includes(context.user.role)) {
+    throw new GraphQLError('Insufficient permissions', { extensions: { code: 'FORBIDDEN' } });
+  }
+};
+
+const checkLimit = (limit: number) => {
+  if (limit < 1 || limit > MAX_LIMIT) {
+    throw badInput(`"limit" must be between 1 and ${MAX_LIMIT}`);
+  }
+  return limit;
+};
+
+/*
+ * Query cost, checked before execution (see routes/graphql.ts). Every list
+ * field takes a `limit`, so it costs its children once per item it can
+ * return. Fields without a cost of their own count 1.
+ */
+const perItem = {
+  complexity: ({ args, childComplexity }: ComplexityEstimatorArgs) =>
+    args.limit * Math.max(childComplexity, 1),
+};
+
+const limitArg = (defaultValue: number): GraphQLFieldConfigArgumentMap => ({
+  limit: { type: nonNull(GraphQLInt), defaultValue, description: `At most this many items (up to ${MAX_LIMIT})` },
+});
+
+// Nested lists are loaded for every parent at once, then cut to each field's limit
+const firstN = async <T>(items: Promise<T[]>, limit: number) => (await items).slice(0, checkLimit(limit));
+
+// Fields backed by an aggregate over every matching conflict
+const aggregate = (cost: number) => ({
+  complexity: ({ childComplexity }: ComplexityEstimatorArgs) => cost + childComplexity,
+});
+
+const DateTime = new GraphQLScalarType({
+  name: 'DateTime',
+  description: 'ISO 8601 timestamp',
+  serialize: (value) => (value instanceof Date ? value.toISOString() : value),
+});
+
+const JSONScalar = new GraphQLScalarType({
+  name: 'JSON',
+  description: 'Arbitrary JSON value',
+  parseValue: (value) => value,
+  parseLiteral: (ast, variables) => valueFromASTUntyped(ast, variables),
+});
+
+const nonNull = <T extends GraphQLNullableType>(type: T) => new GraphQLNonNull(type);
+const listOf = <T extends GraphQLNullableType>(type: T) =>
+  new GraphQLNonNull(new GraphQLList(new GraphQLNonNull(type)));
+
+const SortOrder = new GraphQLEnumType({
+  name: 'SortOrder',
+  values: { ASC: { value: 'asc' }, DESC: { value: 'desc' } },
+});
+
+const ConflictSortField = new GraphQLEnumType({
+  name: 'ConflictSortField',
+  values: {
+    DATE: { value: 'date' },
+    FATALITIES: { value: 'fatalities' },
+    COUNTRY: { value: 'country' },
+    EVENT_TYPE: { value: 'eventType' },
+    RELEVANCE: { value: 'relevance', description: 'Full-text rank; requires filter.q' },
+  },
+});
+
+const TextMatch = new GraphQLEnumType({
+  name: 'TextMatch',
+  values: { CONTAINS: { value: 'contains' }, EXACT: { value: 'exact' } },
+});
+
+const Interval = new GraphQLEnumType({
+  name: 'TimeseriesInterval',
+  values: { DAY: { value: 'day' }, WEEK: { value: 'week' }, MONTH: { value: 'month' }, YEAR: { value: 'year' } },
+});
+
+const TimeseriesGroupBy = new GraphQLEnumType({
+  name: 'TimeseriesGroup',
+  values: { REGION: { value: 'region' }, COUNTRY: { value: 'country' }, EVENT_TYPE: { value: 'eventType' } },
+});
+
+const ConflictFilterInput = new GraphQLInputObjectType({
+  name: 'ConflictFilter',
+  description: 'The filters of GET /api/conflicts, plus an optional GeoJSON polygon',
+  fields: {
+    q: { type: GraphQLString },
+    country: { type: new GraphQLList(nonNull(GraphQLString)) },
+    region: { type: new GraphQLList(nonNull(GraphQLString)) },
+    eventType: { type: new GraphQLList(nonNull(GraphQLString)) },
+    excludeCountry: { type: new GraphQLList(nonNull(GraphQLString)) },
+    excludeRegion: { type: new GraphQLList(nonNull(GraphQLString)) },
+    excludeEventType: { type: new GraphQLList(nonNull(GraphQLString)) },
+    match: { type: TextMatch },
+    minFatalities: { type: GraphQLInt },
+    maxFatalities: { type: GraphQLInt },
+    actorId: { type: GraphQLID },
+    actor: { type: GraphQLString },
+    countryIso: { type: GraphQLString },
+    admin1Id: { type: GraphQLID },
+    admin2Id: { type: GraphQLID },
+    locationId: { type: GraphQLID },
+    locationMismatch: { type: GraphQLBoolean },
+    startDate: { type: GraphQLString },
+    endDate: { type: GraphQLString },
+    bbox: { type: GraphQLString, description: 'minLon,minLat,maxLon,maxLat' },
+    latitude: { type: GraphQLFloat },
+    longitude: { type: GraphQLFloat },
+    radiusKm: { type: GraphQLFloat },
+    polygon: { type: JSONScalar, description: 'GeoJSON Polygon or MultiPolygon geometry' },
+  },
+});
+
+const conflictFilterWithPolygon = conflictFilterSchema.keys({ polygon: polygonGeometry });
+
+// Checked against the same Joi schema as the REST filters; explicit nulls count as unset
+const parseFilter = (filter: Record<string, any> | null | undefined) => {
+  const filters = Object.fromEntries(Object.entries(filter || {}).filter(([, value]) => value !== null));
+
+  const { error } = conflictFilterWithPolygon.validate(filters);
+  if (error) {
+    throw badInput(error.details.map((detail) => detail.message).join(', '));
+  }
+
+  const { polygon, ...rest } = filters;
+  return { filters: rest, polygon };
+};
+
+const conflictWhere = (filter: Record<string, any> | null | undefined, scope?: Prisma.Sql) => {
+  const { filters, polygon } = parseFilter(filter);
+  const { where } = buildConflictFilter(filters, polygon);
+  return scope ? sqlAnd([where, scope]) : where;
+};
+
+const parseDate = (value: string | null | undefined, name: string) => {
+  if (value === null || value === undefined) return undefined;
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw badInput(`"${name}" must be a valid date`);
+  }
+  return date;
+};
+
+const conflictListArgs: GraphQLFieldConfigArgumentMap = {
+  filter: { type: ConflictFilterInput },
+  limit: { type: nonNull(GraphQLInt), defaultValue: 10 },
+  cursor: { type: GraphQLString, description: 'nextCursor of the previous page' },
+  sortBy: { type: ConflictSortField, description: 'Defaults to RELEVANCE with filter.q, otherwise DATE' },
+  sortOrder: { type: nonNull(SortOrder), defaultValue: 'desc' },
+};
+
+// Keyset-paged conflicts through the same code path as GET /api/conflicts
+const conflictPage = async (args: Record<string, any>, scope?: Prisma.Sql) => {
+  const { filters, polygon } = parseFilter(args.filter);
+  const sortBy = args.sortBy ?? undefined;
+
+  if (sortBy === 'relevance' && !filters.q) {
+    throw badInput('Sorting by relevance requires filter.q');
+  }
+
+  const { conflicts, pagination } = await listConflicts({
+    ...filters,
+    limit: checkLimit(args.limit),
+    cursor: args.cursor ?? undefined,
+    sortBy,
+    sortOrder: args.sortOrder,
+  }, polygon, scope);
+
+  return {
+    nodes: conflicts,
+    total: pagination.total ?? null,
+    hasNext: pagination.hasNext,
+    nextCursor: pagination.nextCursor,
+  };
+};
+
+const conflictTotals = async (where: Prisma.Sql) => {
+  const [totals, fatalities] = await Promise.all([
+    countConflicts(where),
+    fatalityRange(where),
+  ]);
+
+  return {
+    totalConflicts: totals.events,
+    totalFatalities: totals.fatalities,
+    fatalityRange: fatalities,
+  };
+};
+
+const trendArgs: GraphQLFieldConfigArgumentMap = {
+  interval: { type: nonNull(Interval), defaultValue: 'month' },
+  groupBy: { type: TimeseriesGroupBy },
+  from: { type: GraphQLString },
+  to: { type: GraphQLString },
+  filter: { type: ConflictFilterInput },
+};
+
+const trend = async (args: Record<string, any>, scope?: Prisma.Sql) =>
+  conflictTimeseries(conflictWhere(args.filter, scope), {
+    interval: args.interval as TimeseriesInterval,
+    groupBy: (args.groupBy ?? undefined) as TimeseriesGroup | undefined,
+    from: parseDate(args.from, 'from'),
+    to: parseDate(args.to, 'to'),
+  });
+
+// Scoped statistics shared by countries, admin units, regions and actors
+const conflictFields = (scopeOf: (parent: any) => Prisma.Sql) => ({
+  conflicts: {
+    type: nonNull(ConflictPageType),
+    args: conflictListArgs,
+    extensions: perItem,
+    resolve: (parent: any, args: Record<string, any>) => conflictPage(args, scopeOf(parent)),
+  },
+  stats: {
+    type: nonNull(ConflictTotalsType),
+    args: { filter: { type: ConflictFilterInput } },
+    extensions: aggregate(5),
+    resolve: (parent: any, args: Record<string, any>) => conflictTotals(conflictWhere(args.filter, scopeOf(parent))),
+  },
+  trend: {
+    type: nonNull(TimeseriesType),
+    args: trendArgs,
+    extensions: aggregate(10),
+    resolve: (parent: any, args: Record<string, any>) => trend(args, scopeOf(parent)),
+  },
+});
+
+const UserType = new GraphQLObjectType({
+  name: 'User',
+  fields: {
+    id: { type: nonNull(GraphQLID) },
+    email: { type: nonNull(GraphQLString) },
+    role: { type: nonNull(GraphQLString) },
+    createdAt: { type: nonNull(DateTime) },
+  },
+});
+
+const FatalityRangeType = new GraphQLObjectType({
+  name: 'FatalityRange',
+  fields: {
+    low: { type: nonNull(GraphQLInt) },
+    best: { type: nonNull(GraphQLInt) },
+    high: { type: nonNull(GraphQLInt) },
+    unknownCount: { type: nonNull(GraphQLInt) },
+  },
+});
+
+const ConflictTotalsType: GraphQLObjectType = new GraphQLObjectType({
+  name: 'ConflictStats',
+  fields: {
+    totalConflicts: { type: nonNull(GraphQLInt) },
+    totalFatalities: { type: nonNull(GraphQLInt) },
+    fatalityRange: { type: nonNull(FatalityRangeType) },
+  },
+});
+
+const TimeseriesSeriesType = new GraphQLObjectType({
+  name: 'TimeseriesSeries',
+  fields: {
+    group: { type: GraphQLString },
+    events: { type: listOf(GraphQLInt) },
+    fatalities: { type: listOf(GraphQLInt) },
+  },
+});
+
+const TimeseriesType: GraphQLObjectType = new GraphQLObjectType({
+  name: 'Timeseries',
+  fields: {
+    interval: { type: nonNull(GraphQLString) },
+    groupBy: { type: GraphQLString },
+    periods: { type: listOf(GraphQLString) },
+    series: { type: listOf(TimeseriesSeriesType) },
+  },
+});
+
+const RevisionType = new GraphQLObjectType({
+  name: 'ConflictRevision',
+  fields: {
+    id: { type: nonNull(GraphQLID) },
+    version: { type: nonNull(GraphQLInt) },
+    action: { type: nonNull(GraphQLString) },
+    userId: { type: GraphQLID },
+    userEmail: {
+      type: GraphQLString,
+      description: 'Email of the acting user; null unless the caller is an admin',
+      resolve: (revision: { userEmail: string | null }, _args: unknown, context: GraphQLContext) =>
+        (context.user.role === 'ADMIN' ? revision.userEmail : null),
+    },
+    changes: { type: nonNull(JSONScalar) },
+    createdAt: { type: nonNull(DateTime) },
+  },
+});
+
+const LocationType = new GraphQLObjectType({
+  name: 'Location',
+  fields: {
+    id: { type: nonNull(GraphQLID) },
+    name: { type: nonNull(GraphQLString) },
+    latitude: { type: GraphQLFloat },
+    longitude: { type: GraphQLFloat },
+  },
+});
+
+const Admin2Type: GraphQLObjectType = new GraphQLObjectType({
+  name: 'Admin2',
+  fields: () => ({
+    id: { type: nonNull(GraphQLID) },
+    name: { type: nonNull(GraphQLString) },
+    conflictCount: {
+      type: nonNull(GraphQLInt),
+      resolve: (admin2: { id: string }, _args: unknown, context: GraphQLContext) =>
+        context.loaders.conflictCountByAdmin2.load(admin2.id),
+    },
+    ...conflictFields((admin2: { id: string }) => Prisma.sql`c."admin2Id" = ${admin2.id}`),
+  }),
+});
+
+const Admin1Type: GraphQLObjectType = new GraphQLObjectType({
+  name: 'Admin1',
+  fields: () => ({
+    id: { type: nonNull(GraphQLID) },
+    name: { type: nonNull(GraphQLString) },
+    country: {
+      type: nonNull(CountryType),
+      resolve: (admin1: Admin1, _args: unknown, context: GraphQLContext) => context.loaders.country.load(admin1.countryId),
+    },
+    admin2s: {
+      type: listOf(Admin2Type),
+      args: limitArg(100),
+      extensions: perItem,
+      resolve: (admin1: Admin1, args: { limit: number }, context: GraphQLContext) =>
+        firstN(context.loaders.admin2sByAdmin1.load(admin1.id), args.limit),
+    },
+    conflictCount: {
+      type: nonNull(GraphQLInt),
+      resolve: (admin1: Admin1, _args: unknown, context: GraphQLContext) =>
+        context.loaders.conflictCountByAdmin1.load(admin1.id),
+    },
+    ...conflictFields((admin1: Admin1) => Prisma.sql`c."admin1Id" = ${admin1.id}`),
+  }),
+});
+
+const CountryActorType: GraphQLObjectType = new GraphQLObjectType({
+  name: 'CountryActor',
+  fields: () => ({
+    actor: { type: nonNull(ActorType) },
+    events: { type: nonNull(GraphQLInt), description: 'Conflicts in the country the actor took part in' },
+  }),
+});
+
+const CountryType: GraphQLObjectType = new GraphQLObjectType({
+  name: 'Country',
+  fields: () => ({
+    id: { type: nonNull(GraphQLID) },
+    name: { type: nonNull(GraphQLString) },
+    iso2: { type: GraphQLString },
+    iso3: { type: nonNull(GraphQLString) },
+    subregion: { type: GraphQLString },
+    admin1s: {
+      type: listOf(Admin1Type),
+      args: limitArg(100),
+      extensions: perItem,
+      resolve: (country: Country, args: { limit: number }, context: GraphQLContext) =>
+        firstN(context.loaders.admin1sByCountry.load(country.id), args.limit),
+    },
+    actors: {
+      type: listOf(CountryActorType),
+      description: 'The actors involved in the most conflicts in the country',
+      args: { limit: { type: nonNull(GraphQLInt), defaultValue: 10 } },
+      extensions: perItem,
+      resolve: (country: Country, args: { limit: number }, context: GraphQLContext) =>
+        context.loaders.actorsByCountry.load({ countryId: country.id, limit: checkLimit(args.limit) }),
+    },
+    conflictCount: {
+      type: nonNull(GraphQLInt),
+      resolve: (country: Country, _args: unknown, context: GraphQLContext) =>
+        context.loaders.conflictCountByCountry.load(country.id),
+    },
+    ...conflictFields((country: Country) => Prisma.sql`c."countryId" = ${country.id}`),
+  }),
+});
+
+const RegionType: GraphQLObjectType = new GraphQLObjectType({
+  name: 'Region',
+  fields: () => ({
+    name: { type: nonNull(GraphQLString) },
+    conflictCount: { type: nonNull(GraphQLInt) },
+    ...conflictFields((region: { name: string }) => Prisma.sql`c."region" = ${region.name}`),
+  }),
+});
+
+const ActivityPointType = new GraphQLObjectType({
+  name: 'ActivityPoint',
+  fields: {
+    period: { type: nonNull(GraphQLString) },
+    events: { type: nonNull(GraphQLInt) },
+    fatalities: { type: nonNull(GraphQLInt) },
+  },
+});
+
+const ActorType: GraphQLObjectType = new GraphQLObjectType({
+  name: 'Actor',
+  fields: () => ({
+    id: { type: nonNull(GraphQLID) },
+    name: { type: nonNull(GraphQLString) },
+    type: { type: GraphQLString },
+    country: { type: GraphQLString },
+    eventCount: {
+      type: nonNull(GraphQLInt),
+      resolve: (actor: Actor, _args: unknown, context: GraphQLContext) => context.loaders.eventCountByActor.load(actor.id),
+    },
+    activity: {
+      type: listOf(ActivityPointType),
+      description: 'Events and fatalities per month',
+      extensions: aggregate(5),
+      resolve: (actor: Actor, _args: unknown, context: GraphQLContext) => context.loaders.activityByActor.load(actor.id),
+    },
+    ...conflictFields((actor: Actor) => Prisma.sql`
+      EXISTS (SELECT 1 FROM conflict_actors ca WHERE ca."conflictId" = c."id" AND ca."actorId" = ${actor.id})
+    `),
+  }),
+});
+
+const ConflictActorType: GraphQLObjectType = new GraphQLObjectType({
+  name: 'ConflictActor',
+  fields: () => ({
+    role: { type: nonNull(GraphQLString) },
+    interaction: { type: GraphQLString },
+    actor: { type: nonNull(ActorType) },
+  }),
+});
+
+const ConflictType: GraphQLObjectType = new GraphQLObjectType({
+  name: 'Conflict',
+  fields: () => ({
+    id: { type: nonNull(GraphQLID) },
+    title: { type: nonNull(GraphQLString) },
+    description: { type: GraphQLString },
+    country: { type: nonNull(GraphQLString) },
+    region: { type: nonNull(GraphQLString) },
+    latitude: { type: nonNull(GraphQLFloat) },
+    longitude: { type: nonNull(GraphQLFloat) },
+    date: { type: nonNull(DateTime) },
+    fatalities: { type: GraphQLInt },
+    fatalitiesMin: { type: GraphQLInt },
+    fatalitiesMax: { type: GraphQLInt },
+    datePrecision: { type: GraphQLInt },
+    locationPrecision: { type: GraphQLInt },
+    eventType: { type: nonNull(GraphQLString) },
+    subEventType: { type: GraphQLString },
+    source: { type: nonNull(GraphQLString) },
+    externalId: { type: GraphQLString },
+    locationMismatch: { type: nonNull(GraphQLBoolean) },
+    createdAt: { type: nonNull(DateTime) },
+    updatedAt: { type: nonNull(DateTime) },
+    geoCountry: {
+      type: CountryType,
+      resolve: (conflict: Conflict, _args: unknown, context: GraphQLContext) =>
+        conflict.countryId ? context.loaders.country.load(conflict.countryId) : null,
+    },
+    admin1: {
+      type: Admin1Type,
+      resolve: (conflict: Conflict, _args: unknown, context: GraphQLContext) =>
+        conflict.admin1Id ? context.loaders.admin1.load(conflict.admin1Id) : null,
+    },
+    admin2: {
+      type: Admin2Type,
+      resolve: (conflict: Conflict, _args: unknown, context: GraphQLContext) =>
+        conflict.admin2Id ? context.loaders.admin2.load(conflict.admin2Id) : null,
+    },
+    location: {
+      type: LocationType,
+      resolve: (conflict: Conflict, _args: unknown, context: GraphQLContext) =>
+        conflict.locationId ? context.loaders.location.load(conflict.locationId) : null,
+    },
+    actors: {
+      type: listOf(ConflictActorType),
+      args: limitArg(10),
+      extensions: perItem,
+      resolve: (conflict: Conflict, args: { limit: number }, context: GraphQLContext) =>
+        firstN(context.loaders.actorsByConflict.load(conflict.id), args.limit),
+    },
+    history: {
+      type: listOf(RevisionType),
+      description: 'Revisions, newest first',
+      args: limitArg(20),
+      extensions: perItem,
+      resolve: (conflict: Conflict, args: { limit: number }, context: GraphQLContext) =>
+        firstN(context.loaders.revisionsByConflict.load(conflict.id), args.limit),
+    },
+  }),
+});
+
+const ConflictPageType: GraphQLObjectType = new GraphQLObjectType({
+  name: 'ConflictPage',
+  fields: () => ({
+    nodes: { type: listOf(ConflictType) },
+    total: { type: GraphQLInt, description: 'Number of matching conflicts; null when paging by cursor' },
+    hasNext: { type: nonNull(GraphQLBoolean) },
+    nextCursor: { type: GraphQLString },
+  }),
+});
+
+const SubEventTypeType = new GraphQLObjectType({
+  name: 'SubEventType',
+  fields: {
+    id: { type: nonNull(GraphQLID) },
+    name: { type: nonNull(GraphQLString) },
+    description: { type: GraphQLString },
+  },
+});
+
+const EventTypeType = new GraphQLObjectType({
+  name: 'EventType',
+  fields: {
+    id: { type: nonNull(GraphQLID) },
+    name: { type: nonNull(GraphQLString) },
+    description: { type: GraphQLString },
+    subEventTypes: {
+      type: listOf(SubEventTypeType),
+      args: limitArg(20),
+      extensions: perItem,
+      resolve: (eventType: { id: string }, args: { limit: number }, context: GraphQLContext) =>
+        firstN(context.loaders.subEventTypesByEventType.load(eventType.id), args.limit),
+    },
+  },
+});
+
+const QueryType = new GraphQLObjectType<unknown, GraphQLContext>({
+  name: 'Query',
+  fields: {
+    me: {
+      type: UserType,
+      resolve: (_root, _args, context) => prisma.user.findUnique({ where: { id: context.user.userId } }),
+    },
+    users: {
+      type: listOf(UserType),
+      description: 'Admin only',
+      args: limitArg(50),
+      extensions: perItem,
+      resolve: (_root, args: { limit: number }, context) => {
+        requireRole(context, ['ADMIN']);
+        return prisma.user.findMany({ orderBy: { createdAt: 'desc' }, take: checkLimit(args.limit) });
+      },
+    },
+    conflict: {
+      type: ConflictType,
+      args: { id: { type: nonNull(GraphQLID) } },
+      resolve: (_root, args: { id: string }) => prisma.conflict.findUnique({ where: { id: args.id } }),
+    },
+    conflicts: {
+      type: nonNull(ConflictPageType),
+      args: conflictListArgs,
+      extensions: perItem,
+      resolve: (_root, args) => conflictPage(args),
+    },
+    stats: {
+      type: nonNull(ConflictTotalsType),
+      args: { filter: { type: ConflictFilterInput } },
+      extensions: aggregate(5),
+      resolve: (_root, args) => conflictTotals(conflictWhere(args.filter)),
+    },
+    timeseries: {
+      type: nonNull(TimeseriesType),
+      args: trendArgs,
+      extensions: aggregate(10),
+      resolve: (_root, args) => trend(args),
+    },
+    countries: {
+      type: listOf(CountryType),
+      args: {
+        all: { type: nonNull(GraphQLBoolean), defaultValue: false, description: 'Include countries without any conflicts' },
+        ...limitArg(250),
+      },
+      extensions: perItem,
+      resolve: (_root, args: { all: boolean; limit: number }) => prisma.country.findMany({
+        where: args.all ? {} : { conflicts: { some: {} } },
+        orderBy: { name: 'asc' },
+        take: checkLimit(args.limit),
+      }),
+    },
+    country: {
+      type: CountryType,
+      args: { iso: { type: nonNull(GraphQLString), description: 'ISO 3166-1 alpha-2 or alpha-3 code, or the country name' } },
+      resolve: (_root, args: { iso: string }) => findCountry(prisma, args.iso),
+    },
+    admin1: {
+      type: Admin1Type,
+      args: { id: { type: nonNull(GraphQLID) } },
+      resolve: (_root, args: { id: string }) => prisma.admin1.findUnique({ where: { id: args.id } }),
+    },
+    regions: {
+      type: listOf(RegionType),
+      args: limitArg(50),
+      extensions: perItem,
+      resolve: async (_root, args: { limit: number }) => {
+        const regions = await prisma.conflict.groupBy({
+          by: ['region'],
+          _count: true,
+          orderBy: { region: 'asc' },
+          take: checkLimit(args.limit),
+        });
+        return regions.map((region) => ({ name: region.region, conflictCount: region._count }));
+      },
+    },
+    region: {
+      type: RegionType,
+      args: { name: { type: nonNull(GraphQLString), description: 'Exact region name, as listed by regions' } },
+      resolve: async (_root, args: { name: string }) => {
+        const conflictCount = await prisma.conflict.count({ where: { region: args.name } });
+        return conflictCount > 0 ? { name: args.name, conflictCount } : null;
+      },
+    },
+    actors: {
+      type: listOf(ActorType),
+      args: {
+        q: { type: GraphQLString, description: 'Name contains' },
+        limit: { type: nonNull(GraphQLInt), defaultValue: 20 },
+      },
+      extensions: perItem,
+      resolve: (_root, args: { q?: string | null; limit: number }) => prisma.actor.findMany({
+        where: args.q ? { name: { contains: args.q, mode: 'insensitive' } } : {},
+        take: checkLimit(args.limit),
+        orderBy: { name: 'asc' },
+      }),
+    },
+    actor: {
+      type: ActorType,
+      args: { id: { type: nonNull(GraphQLID) } },
+      resolve: (_root, args: { id: string }) => prisma.actor.findUnique({ where: { id: args.id } }),
+    },
+    eventTypes: {
+      type: listOf(EventTypeType),
+      args: limitArg(20),
+      extensions: perItem,
+      resolve: (_root, args: { limit: number }) =>
+        prisma.eventType.findMany({ orderBy: { name: 'asc' }, take: checkLimit(args.limit) }),
+    },
+  },
+});
+
+export const schema = new GraphQLSchema({ query: QueryType });
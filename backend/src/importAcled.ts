@@ -0,0 +1,55 @@
+import fs from 'fs';
+import path from 'path';
+import { prisma } from './utils/prisma';
+import { parseAcledCsv } from './services/acledImport';
+import { importConflicts } from './services/conflictImport';
+
+// Usage: npm run import:acled -- <file.csv> [more.csv ...] [--dry-run]
+
+const BATCH_SIZE = 1000;
+
+async function main() {
+  const args = process.argv.slice(2);
+  const dryRun = args.includes('--dry-run');
+  const files = args.filter((arg) => !arg.startsWith('--'));
+
+  if (files.length === 0) {
+    console.error('Usage: npm run import:acled -- <file.csv> [more.csv ...] [--dry-run]');
+    process.exit(1);
+  }
+
+  for (const file of files) {
+    const filePath = path.resolve(file);
+    console.log(`${dryRun ? 'Checking' : 'Importing'} ${filePath}...`);
+
+    const candidates = parseAcledCsv(fs.readFileSync(filePath, 'utf8'));
+    const totals = { inserted: 0, updated: 0, rejected: 0 };
+
+    for (let i = 0; i < candidates.length; i += BATCH_SIZE) {
+      const report = await importConflicts(candidates.slice(i, i + BATCH_SIZE), { dryRun });
+
+      totals.inserted += report.summary.inserted;
+      totals.updated += report.summary.updated;
+      totals.rejected += report.summary.rejected;
+
+      for (const row of report.rows.filter((r) => r.action === 'reject')) {
+        console.warn(`  row ${row.row}: ${row.errors?.join('; ')}`);
+      }
+    }
+
+    console.log(`  ${candidates.length} rows: ${totals.inserted} inserted, ${totals.updated} updated, ${totals.rejected} rejected`);
+  }
+
+  if (dryRun) {
+    console.log('Dry run - no changes were written');
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -12,6 +12,17 @@ import authRoutes from './routes/auth';
 import conflictRoutes from './routes/conflicts';
 import regionRoutes from './routes/regions';
 import userRoutes from './routes/users';
+import importRoutes from './routes/imports';
+import duplicateRoutes from './routes/duplicates';
+import actorRoutes from './routes/actors';
+import geocodingRoutes from './routes/geocoding';
+import eventTypeRoutes from './routes/eventTypes';
+import alertRoutes from './routes/alerts';
+import savedSearchRoutes from './routes/savedSearches';
+import exportRoutes from './routes/exports';
+import graphqlRoutes from './routes/graphql';
+import { startAlertEvaluator } from './services/alerts';
+import { startExportWorker } from './services/exportJobs';
 
 dotenv.config();
 
@@ -80,6 +91,15 @@ app.use('/api/auth', authRoutes);
 app.use('/api/conflicts', conflictRoutes);
 app.use('/api/regions', regionRoutes);
 app.use('/api/users', userRoutes);
+app.use('/api/imports', importRoutes);
+app.use('/api/duplicates', duplicateRoutes);
+app.use('/api/actors', actorRoutes);
+app.use('/api/geocoding', geocodingRoutes);
+app.use('/api/event-types', eventTypeRoutes);
+app.use('/api/alerts', alertRoutes);
+app.use('/api/saved-searches', savedSearchRoutes);
+app.use('/api/exports', exportRoutes);
+app.use('/graphql', graphqlRoutes);
 
 // 404 handler
 app.use('*', (req, res) => {
@@ -95,4 +115,7 @@ app.use(errorHandler);
 app.listen(PORT, () => {
   logger.info(`Server running on port ${PORT}`);
   logger.info(`API Documentation: http://localhost:${PORT}/api/docs`);
+
+  startAlertEvaluator();
+  startExportWorker().catch((error) => logger.error(`Export worker failed to start: ${error instanceof Error ? error.message : error}`));
 });
\ No newline at end of file
@@ -0,0 +1,104 @@
+import Joi from 'joi';
+import { Prisma } from '@prisma/client';
+
+const BBOX_PATTERN = /^\s*-?\d+(\.\d+)?\s*(,\s*-?\d+(\.\d+)?\s*){3}$/;
+
+// minLon,minLat,maxLon,maxLat; minLon may exceed maxLon for a box across the antimeridian
+const validBBox = (value: string, helpers: Joi.CustomHelpers) => {
+  const [minLon, minLat, maxLon, maxLat] = value.split(',').map(Number);
+
+  if ([minLon, maxLon].some((lon) => lon < -180 || lon > 180)) {
+    return helpers.message({ custom: '"bbox" longitudes must be between -180 and 180' });
+  }
+  if ([minLat, maxLat].some((lat) => lat < -90 || lat > 90)) {
+    return helpers.message({ custom: '"bbox" latitudes must be between -90 and 90' });
+  }
+  if (minLat > maxLat) {
+    return helpers.message({ custom: '"bbox" minLat must not exceed maxLat' });
+  }
+
+  return value;
+};
+
+// A single value, a comma-separated list (CSV-quote names that contain commas) or a repeated parameter
+const multiValue = Joi.alternatives().try(
+  Joi.string(),
+  Joi.array().items(Joi.string()).min(1).max(100),
+);
+
+// Filter parameters shared by every endpoint that selects a set of conflicts
+export const conflictFilterFields = {
+  q: Joi.string().trim().max(200),
+  country: multiValue,
+  region: multiValue,
+  eventType: multiValue,
+  excludeCountry: multiValue,
+  excludeRegion: multiValue,
+  excludeEventType: multiValue,
+  // How country, region and eventType values (and their exclusions) are compared, case-insensitively
+  match: Joi.string().valid('contains', 'exact'),
+  minFatalities: Joi.number().integer().min(0),
+  maxFatalities: Joi.number().integer().min(0)
+    .when('minFatalities', { is: Joi.exist(), then: Joi.number().min(Joi.ref('minFatalities')) }),
+  actorId: Joi.string(),
+  actor: Joi.string(),
+  countryIso: Joi.string().pattern(/^[A-Za-z]{2,3}$/),
+  admin1Id: Joi.string(),
+  admin2Id: Joi.string(),
+  locationId: Joi.string(),
+  locationMismatch: Joi.boolean(),
+  startDate: Joi.date(),
+  endDate: Joi.date(),
+  bbox: Joi.string().pattern(BBOX_PATTERN).custom(validBBox)
+    .messages({ 'string.pattern.base': '"bbox" must be minLon,minLat,maxLon,maxLat' }),
+  latitude: Joi.number().min(-90).max(90),
+  longitude: Joi.number().min(-180).max(180),
+  radiusKm: Joi.number().positive().max(20000),
+};
+
+export const conflictFilterSchema = Joi.object(conflictFilterFields)
+  .and('latitude', 'longitude', 'radiusKm');
+
+const CONFLICT_FIELDS: string[] = Object.values(Prisma.ConflictScalarFieldEnum);
+
+// Comma-separated conflict columns to return
+const validFields = (value: string, helpers: Joi.CustomHelpers) => {
+  const unknown = value.split(',').map((field) => field.trim()).filter((field) => !CONFLICT_FIELDS.includes(field));
+
+  if (unknown.length > 0) {
+    return helpers.message({ custom: `"fields" has unknown field(s) ${unknown.join(', ')}; valid fields are ${CONFLICT_FIELDS.join(', ')}` });
+  }
+
+  return value;
+};
+
+// Paging, sorting and field selection of the conflict list, on top of the filters
+export const conflictListFields = {
+  page: Joi.number().integer().min(1).default(1)
+    .when('cursor', { is: Joi.exist(), then: Joi.forbidden() }),
+  cursor: Joi.string().max(2000),
+  fields: Joi.string().custom(validFields),
+  limit: Joi.number().integer().min(1).max(1000).default(10),
+  sortBy: Joi.string().valid('date', 'fatalities', 'country', 'eventType', 'relevance')
+    .when('q', { not: Joi.exist(), then: Joi.invalid('relevance') })
+    .default('date'),
+  sortOrder: Joi.string().valid('asc', 'desc').default('desc'),
+};
+
+const position = Joi.array()
+  .ordered(Joi.number().min(-180).max(180).required(), Joi.number().min(-90).max(90).required())
+  .items(Joi.number());
+const linearRing = Joi.array().items(position).min(4);
+const polygonRings = Joi.array().items(linearRing).min(1);
+
+// GeoJSON Polygon or MultiPolygon geometry in [lon, lat] order
+export const polygonGeometry = Joi.alternatives().try(
+  Joi.object({
+    type: Joi.string().valid('Polygon').required(),
+    coordinates: polygonRings.required(),
+  }),
+  Joi.object({
+    type: Joi.string().valid('MultiPolygon').required(),
+    coordinates: Joi.array().items(polygonRings).min(1).required(),
+  }),
+);
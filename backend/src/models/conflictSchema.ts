@@ -0,0 +1,109 @@
+import Joi from 'joi';
+import { Prisma } from '@prisma/client';
+
+// Field rules for the Conflict columns clients write, shared by the write routes and importers
+export const conflictFields = {
+  title: Joi.string().trim().max(500),
+  description: Joi.string().allow('', null),
+  country: Joi.string().trim(),
+  region: Joi.string().trim(),
+  latitude: Joi.number().min(-90).max(90),
+  longitude: Joi.number().min(-180).max(180),
+  date: Joi.date(),
+  fatalities: Joi.number().integer().min(0).allow(null),
+  fatalitiesMin: Joi.number().integer().min(0).allow(null),
+  fatalitiesMax: Joi.number().integer().min(0).allow(null),
+  datePrecision: Joi.number().integer().valid(1, 2, 3).allow(null),
+  locationPrecision: Joi.number().integer().valid(1, 2, 3).allow(null),
+  eventType: Joi.string().trim(),
+  subEventType: Joi.string().trim().allow(null),
+  source: Joi.string().trim(),
+};
+
+// Provenance of imported records, taken from the source file by the importers only
+export const importFields = {
+  externalId: Joi.string().trim().allow(null),
+  attributes: Joi.object().unknown(true).allow(null),
+};
+
+// Set by the server: the geography links from attachGeography and the geocoding check
+export const derivedFields = {
+  countryId: Joi.string().allow(null),
+  admin1Id: Joi.string().allow(null),
+  admin2Id: Joi.string().allow(null),
+  locationId: Joi.string().allow(null),
+  locationMismatch: Joi.boolean(),
+};
+
+// Every stored Conflict column, as kept in revision snapshots
+export const conflictColumns = { ...conflictFields, ...importFields, ...derivedFields };
+
+// Place names resolved against the geography reference tables rather than stored as-is
+export const placeFields = {
+  admin1: Joi.string().trim().allow(null),
+  admin2: Joi.string().trim().allow(null),
+  location: Joi.string().trim().allow(null),
+};
+
+/**
+ * Check that the low, best and high fatality estimates are ordered. Any of
+ * them may be missing; a missing best estimate means the count is unknown.
+ */
+export const fatalityRangeError = (values: Record<string, any>): string | null => {
+  const [min, best, max] = [values.fatalitiesMin, values.fatalities, values.fatalitiesMax]
+    .map((value) => (value === null || value === undefined || value === '' ? null : Number(value)));
+
+  if (min !== null && best !== null && min > best) return '"fatalitiesMin" must not exceed "fatalities"';
+  if (max !== null && best !== null && max < best) return '"fatalitiesMax" must not be below "fatalities"';
+  if (min !== null && max !== null && min > max) return '"fatalitiesMin" must not exceed "fatalitiesMax"';
+
+  return null;
+};
+
+const orderedFatalities = (value: Record<string, any>, helpers: Joi.CustomHelpers) => {
+  const message = fatalityRangeError(value);
+  return message ? helpers.message({ custom: message }) : value;
+};
+
+// Country and region may be left out of a request and derived from the coordinates
+export const conflictCreateBody = Joi.object({
+  ...conflictFields,
+  ...placeFields,
+  title: conflictFields.title.required(),
+  latitude: conflictFields.latitude.required(),
+  longitude: conflictFields.longitude.required(),
+  date: conflictFields.date.required(),
+  eventType: conflictFields.eventType.required(),
+}).custom(orderedFatalities);
+
+// A complete imported record, checked once geocoding has filled in what it can
+export const conflictRecordBody = conflictCreateBody.keys({
+  ...importFields,
+  locationMismatch: derivedFields.locationMismatch,
+  country: conflictFields.country.required(),
+  region: conflictFields.region.required(),
+});
+
+export const toPlaceNames = (body: Record<string, any>) => {
+  if (!Object.keys(placeFields).some((field) => body[field] !== undefined)) return undefined;
+
+  return {
+    admin1: body.admin1 ?? null,
+    admin2: body.admin2 ?? null,
+    location: body.location ?? null,
+  };
+};
+
+export const toConflictData = (body: Record<string, any>) => {
+  const data: Record<string, any> = {};
+
+  for (const field of Object.keys(conflictColumns)) {
+    if (body[field] === undefined) continue;
+    data[field] = field === 'date' ? new Date(body[field]) : body[field];
+  }
+
+  if (data.description === '') data.description = null;
+  if (data.attributes === null) data.attributes = Prisma.DbNull;
+
+  return data;
+};
@@ -10,8 +10,15 @@ export interface ConflictData {
   longitude: number;
   date: Date;
   fatalities?: number;
+  fatalitiesMin?: number;
+  fatalitiesMax?: number;
+  datePrecision?: number;
+  locationPrecision?: number;
   eventType: string;
+  subEventType?: string;
   source: string;
+  externalId?: string;
+  attributes?: Record<string, unknown>;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -24,10 +31,26 @@ export interface UserData {
   updatedAt: Date;
 }
 
+export interface FatalityRange {
+  low: number;
+  best: number;
+  high: number;
+  unknownCount: number;
+}
+
 export interface ConflictStats {
   totalConflicts: number;
   totalFatalities: number;
+  fatalityRange: FatalityRange;
+  fatalityPercentiles: Record<string, number | null>;
+  unknownFatalitiesShare: number;
+  recentDays: number;
   recentConflicts: number;
+  topCountries: Array<{
+    country: string;
+    count: number;
+    fatalities: number;
+  }>;
   conflictsByRegion: Array<{
     region: string;
     count: number;
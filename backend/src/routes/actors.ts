@@ -0,0 +1,432 @@
+import express from 'express';
+import Joi from 'joi';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validateRequest } from '../middleware/validation';
+import { countActorEvents, getActorActivity } from '../services/actors';
+
+const router = express.Router();
+
+const ACTOR_ROLES = ['AGGRESSOR', 'TARGET', 'PARTICIPANT'];
+
+const actorQuerySchema = {
+  query: Joi.object({
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+    q: Joi.string().optional(),
+    type: Joi.string().optional(),
+    country: Joi.string().optional(),
+  }),
+};
+
+const actorIdSchema = {
+  params: Joi.object({
+    id: Joi.string().required(),
+  }),
+};
+
+const actorCreateSchema = {
+  body: Joi.object({
+    name: Joi.string().trim().max(300).required(),
+    type: Joi.string().trim().allow(null).optional(),
+    country: Joi.string().trim().allow(null).optional(),
+  }),
+};
+
+const actorUpdateSchema = {
+  params: actorIdSchema.params,
+  body: Joi.object({
+    name: Joi.string().trim().max(300),
+    type: Joi.string().trim().allow(null),
+    country: Joi.string().trim().allow(null),
+  }).min(1),
+};
+
+// Actor names are unique; the response when a create or rename would clash
+const nameTaken = async (name: string, exceptId?: string) => {
+  const existing = await prisma.actor.findUnique({ where: { name } });
+  return existing !== null && existing.id !== exceptId;
+};
+
+const duplicateName = {
+  error: 'Actor with this name already exists',
+};
+
+const actorLinkSchema = {
+  params: actorIdSchema.params,
+  body: Joi.object({
+    conflictId: Joi.string().required(),
+    role: Joi.string().valid(...ACTOR_ROLES).required(),
+    interaction: Joi.string().trim().allow(null).optional(),
+  }),
+};
+
+const actorUnlinkSchema = {
+  params: Joi.object({
+    id: Joi.string().required(),
+    conflictId: Joi.string().required(),
+  }),
+};
+
+/**
+ * @swagger
+ * /api/actors:
+ *   get:
+ *     summary: List actors with event counts
+ *     tags: [Actors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         schema:
+ *           type: string
+ *         description: Search actor names
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *         description: Filter by actor type
+ *       - in: query
+ *         name: country
+ *         schema:
+ *           type: string
+ *         description: Filter by actor home country
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: List of actors
+ */
+router.get('/', authenticateToken, validateRequest(actorQuerySchema), asyncHandler(async (req, res) => {
+  const { page = 1, limit = 20, q, type, country } = req.query;
+
+  const where: Prisma.ActorWhereInput = {};
+
+  if (q) where.name = { contains: String(q), mode: 'insensitive' };
+  if (type) where.type = { equals: String(type), mode: 'insensitive' };
+  if (country) where.country = { equals: String(country), mode: 'insensitive' };
+
+  const [actors, total] = await Promise.all([
+    prisma.actor.findMany({
+      where,
+      skip: (Number(page) - 1) * Number(limit),
+      take: Number(limit),
+      orderBy: { name: 'asc' },
+    }),
+    prisma.actor.count({ where }),
+  ]);
+
+  const eventCounts = await countActorEvents(actors.map((actor) => actor.id));
+
+  const totalPages = Math.ceil(total / Number(limit));
+
+  res.json({
+    actors: actors.map((actor) => ({
+      ...actor,
+      eventCount: eventCounts.get(actor.id) ?? 0,
+    })),
+    pagination: {
+      page: Number(page),
+      limit: Number(limit),
+      total,
+      totalPages,
+      hasNext: Number(page) < totalPages,
+      hasPrev: Number(page) > 1,
+    },
+  });
+}));
+
+/**
+ * @swagger
+ * /api/actors/{id}:
+ *   get:
+ *     summary: Get an actor profile
+ *     description: >
+ *       Returns the actor with its event and fatality totals, counts by role,
+ *       the countries it has been active in and monthly activity over time.
+ *     tags: [Actors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Actor profile
+ *       404:
+ *         description: Actor not found
+ */
+router.get('/:id', authenticateToken, validateRequest(actorIdSchema), asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  const actor = await prisma.actor.findUnique({ where: { id } });
+
+  if (!actor) {
+    return res.status(404).json({
+      error: 'Actor not found',
+    });
+  }
+
+  const conflictWhere: Prisma.ConflictWhereInput = { actors: { some: { actorId: id } } };
+
+  const [totals, byRole, byCountry, activity] = await Promise.all([
+    prisma.conflict.aggregate({
+      where: conflictWhere,
+      _count: true,
+      _sum: { fatalities: true },
+      _min: { date: true },
+      _max: { date: true },
+    }),
+    prisma.conflictActor.groupBy({
+      by: ['role'],
+      where: { actorId: id },
+      _count: true,
+    }),
+    prisma.conflict.groupBy({
+      by: ['country'],
+      where: conflictWhere,
+      _count: true,
+      _sum: { fatalities: true },
+      orderBy: { _count: { country: 'desc' } },
+    }),
+    getActorActivity(id),
+  ]);
+
+  return res.json({
+    ...actor,
+    stats: {
+      totalEvents: totals._count,
+      totalFatalities: totals._sum.fatalities || 0,
+      firstEvent: totals._min.date,
+      lastEvent: totals._max.date,
+      eventsByRole: byRole.map((item: any) => ({
+        role: item.role,
+        count: item._count
+      })),
+      countries: byCountry.map((item: any) => ({
+        country: item.country,
+        count: item._count,
+        fatalities: item._sum.fatalities || 0
+      })),
+    },
+    activity,
+  });
+}));
+
+/**
+ * @swagger
+ * /api/actors:
+ *   post:
+ *     summary: Create an actor (Admin only)
+ *     tags: [Actors]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *               country:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Actor created
+ *       409:
+ *         description: An actor with this name already exists
+ */
+router.post('/', authenticateToken, requireRole(['ADMIN']), validateRequest(actorCreateSchema), asyncHandler(async (req, res) => {
+  const { name, type, country } = req.body;
+
+  if (await nameTaken(name)) {
+    return res.status(409).json(duplicateName);
+  }
+
+  const actor = await prisma.actor.create({
+    data: { name, type, country },
+  });
+
+  return res.status(201).json(actor);
+}));
+
+/**
+ * @swagger
+ * /api/actors/{id}:
+ *   patch:
+ *     summary: Update an actor (Admin only)
+ *     tags: [Actors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *               country:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Actor updated
+ *       404:
+ *         description: Actor not found
+ *       409:
+ *         description: Another actor already has this name
+ */
+router.patch('/:id', authenticateToken, requireRole(['ADMIN']), validateRequest(actorUpdateSchema), asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  const existing = await prisma.actor.findUnique({ where: { id } });
+
+  if (!existing) {
+    return res.status(404).json({
+      error: 'Actor not found',
+    });
+  }
+
+  if (req.body.name && await nameTaken(req.body.name, id)) {
+    return res.status(409).json(duplicateName);
+  }
+
+  const actor = await prisma.actor.update({
+    where: { id },
+    data: req.body,
+  });
+
+  return res.json(actor);
+}));
+
+/**
+ * @swagger
+ * /api/actors/{id}/conflicts:
+ *   post:
+ *     summary: Link an actor to a conflict event (Admin only)
+ *     tags: [Actors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [conflictId, role]
+ *             properties:
+ *               conflictId:
+ *                 type: string
+ *               role:
+ *                 type: string
+ *                 enum: [AGGRESSOR, TARGET, PARTICIPANT]
+ *               interaction:
+ *                 type: string
+ *                 description: Interaction type, e.g. "State forces-Rebel group"
+ *     responses:
+ *       201:
+ *         description: Link created or updated
+ *       404:
+ *         description: Actor or conflict not found
+ */
+router.post('/:id/conflicts', authenticateToken, requireRole(['ADMIN']), validateRequest(actorLinkSchema), asyncHandler(async (req, res) => {
+  const { id } = req.params;
+  const { conflictId, role, interaction } = req.body;
+
+  const [actor, conflict] = await Promise.all([
+    prisma.actor.findUnique({ where: { id } }),
+    prisma.conflict.findUnique({ where: { id: conflictId } }),
+  ]);
+
+  if (!actor || !conflict) {
+    return res.status(404).json({
+      error: actor ? 'Conflict not found' : 'Actor not found',
+    });
+  }
+
+  const link = await prisma.conflictActor.upsert({
+    where: { conflictId_actorId_role: { conflictId, actorId: id, role } },
+    create: { conflictId, actorId: id, role, interaction },
+    update: { interaction },
+  });
+
+  return res.status(201).json(link);
+}));
+
+/**
+ * @swagger
+ * /api/actors/{id}/conflicts/{conflictId}:
+ *   delete:
+ *     summary: Remove an actor from a conflict event (Admin only)
+ *     tags: [Actors]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: conflictId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Links removed
+ *       404:
+ *         description: Actor is not linked to this conflict
+ */
+router.delete('/:id/conflicts/:conflictId', authenticateToken, requireRole(['ADMIN']), validateRequest(actorUnlinkSchema), asyncHandler(async (req, res) => {
+  const { id, conflictId } = req.params;
+
+  const { count } = await prisma.conflictActor.deleteMany({
+    where: { actorId: id, conflictId },
+  });
+
+  if (count === 0) {
+    return res.status(404).json({
+      error: 'Actor is not linked to this conflict',
+    });
+  }
+
+  return res.status(204).send();
+}));
+
+export default router;
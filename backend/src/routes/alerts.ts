@@ -0,0 +1,494 @@
+import express from 'express';
+import Joi from 'joi';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validateRequest } from '../middleware/validation';
+import { conflictFilterSchema } from '../models/conflictFilterSchema';
+import { evaluateRule } from '../services/alerts';
+import { assertPublicHost, PrivateAddressError } from '../utils/network';
+
+const router = express.Router();
+
+const ALERT_RULE_TYPES = ['FATALITIES_ABOVE', 'EVENTS_ABOVE', 'NEW_EVENT_TYPE'];
+const ALERT_CHANNELS = ['IN_APP', 'EMAIL', 'WEBHOOK'];
+const THRESHOLD_TYPES = ['FATALITIES_ABOVE', 'EVENTS_ABOVE'];
+
+// Fields that change what a rule measures; editing them resets its evaluator state
+const CONDITION_FIELDS = ['type', 'filters', 'threshold', 'windowDays'];
+
+const alertRuleFields = {
+  name: Joi.string().trim().max(200),
+  type: Joi.string().valid(...ALERT_RULE_TYPES),
+  // Threshold rules use a rolling window instead of fixed dates
+  filters: conflictFilterSchema.keys({
+    startDate: Joi.forbidden(),
+    endDate: Joi.forbidden(),
+  }),
+  threshold: Joi.number().integer().min(0).allow(null),
+  windowDays: Joi.number().integer().min(1).max(365),
+  channels: Joi.array().items(Joi.string().valid(...ALERT_CHANNELS)).min(1).unique(),
+  email: Joi.string().email().allow(null),
+  webhookUrl: Joi.string().uri({ scheme: ['http', 'https'] }).allow(null),
+  enabled: Joi.boolean(),
+};
+
+const alertQuerySchema = {
+  query: Joi.object({
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+    unread: Joi.boolean().optional(),
+  }),
+};
+
+const idSchema = {
+  params: Joi.object({
+    id: Joi.string().required(),
+  }),
+};
+
+const alertRuleCreateSchema = {
+  body: Joi.object({
+    ...alertRuleFields,
+    name: alertRuleFields.name.required(),
+    type: alertRuleFields.type.required(),
+  }),
+};
+
+const alertRuleUpdateSchema = {
+  params: idSchema.params,
+  body: Joi.object(alertRuleFields).min(1),
+};
+
+/**
+ * Check the cross-field requirements of a complete rule: threshold rules need
+ * a threshold, the webhook channel needs a URL on a public host, and email
+ * goes only to the account's own address.
+ */
+const alertRuleError = async (rule: Record<string, any>, accountEmail: string): Promise<string | null> => {
+  if (THRESHOLD_TYPES.includes(rule.type) && (rule.threshold === null || rule.threshold === undefined)) {
+    return `"threshold" is required for ${rule.type} rules`;
+  }
+  if ((rule.channels || []).includes('WEBHOOK') && !rule.webhookUrl) {
+    return '"webhookUrl" is required for the WEBHOOK channel';
+  }
+  if (rule.email && rule.email.toLowerCase() !== accountEmail.toLowerCase()) {
+    return '"email" must be your account email';
+  }
+  if (rule.webhookUrl) {
+    try {
+      await assertPublicHost(new URL(rule.webhookUrl).hostname);
+    } catch (error) {
+      if (error instanceof PrivateAddressError) return `"webhookUrl": ${error.message}`;
+      throw error;
+    }
+  }
+  return null;
+};
+
+const findOwnRule = (id: string, userId: string) =>
+  prisma.alertRule.findFirst({
+    where: { id, userId },
+    include: { user: { select: { email: true } } },
+  });
+
+/**
+ * @swagger
+ * /api/alerts:
+ *   get:
+ *     summary: List the current user's alerts, newest first
+ *     tags: [Alerts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: unread
+ *         schema:
+ *           type: boolean
+ *         description: Only unread (true) or read (false) alerts
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Alerts with the unread count
+ */
+router.get('/', authenticateToken, validateRequest(alertQuerySchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { page = 1, limit = 20, unread } = req.query;
+  const userId = req.user!.userId;
+
+  const where: Prisma.AlertWhereInput = { userId };
+  if (unread !== undefined) {
+    where.readAt = String(unread) === 'true' ? null : { not: null };
+  }
+
+  const [alerts, total, unreadCount] = await Promise.all([
+    prisma.alert.findMany({
+      where,
+      skip: (Number(page) - 1) * Number(limit),
+      take: Number(limit),
+      orderBy: { createdAt: 'desc' },
+      include: { rule: { select: { id: true, name: true, type: true } } },
+    }),
+    prisma.alert.count({ where }),
+    prisma.alert.count({ where: { userId, readAt: null } }),
+  ]);
+
+  const totalPages = Math.ceil(total / Number(limit));
+
+  res.json({
+    alerts,
+    unreadCount,
+    pagination: {
+      page: Number(page),
+      limit: Number(limit),
+      total,
+      totalPages,
+      hasNext: Number(page) < totalPages,
+      hasPrev: Number(page) > 1,
+    },
+  });
+}));
+
+/**
+ * @swagger
+ * /api/alerts/read-all:
+ *   post:
+ *     summary: Mark all of the current user's alerts as read
+ *     tags: [Alerts]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Number of alerts marked as read
+ */
+router.post('/read-all', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { count } = await prisma.alert.updateMany({
+    where: { userId: req.user!.userId, readAt: null },
+    data: { readAt: new Date() },
+  });
+
+  res.json({ updated: count });
+}));
+
+/**
+ * @swagger
+ * /api/alerts/rules:
+ *   get:
+ *     summary: List the current user's alert rules
+ *     tags: [Alerts]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Alert rules
+ *   post:
+ *     summary: Create an alert rule
+ *     description: >
+ *       FATALITIES_ABOVE and EVENTS_ABOVE fire when the fatalities or events
+ *       matching the filters over the last windowDays days rise above threshold;
+ *       they fire again only after dropping back below it. NEW_EVENT_TYPE fires
+ *       when an event type appears among the matching conflicts that had not been
+ *       seen before (the first evaluation records the baseline). Filters are
+ *       those of GET /api/conflicts except startDate/endDate. The rule is
+ *       evaluated once on creation and then in the background as data changes.
+ *     tags: [Alerts]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, type]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               type:
+ *                 type: string
+ *                 enum: [FATALITIES_ABOVE, EVENTS_ABOVE, NEW_EVENT_TYPE]
+ *               filters:
+ *                 type: object
+ *                 example:
+ *                   country: Sudan
+ *               threshold:
+ *                 type: integer
+ *               windowDays:
+ *                 type: integer
+ *                 default: 7
+ *               channels:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [IN_APP, EMAIL, WEBHOOK]
+ *                 default: [IN_APP]
+ *               email:
+ *                 type: string
+ *                 description: >
+ *                   Recipient for EMAIL; only the account email is accepted,
+ *                   which is also the default
+ *               webhookUrl:
+ *                 type: string
+ *                 description: >
+ *                   Required for WEBHOOK; receives a JSON POST per alert. Hosts
+ *                   resolving to private, loopback or link-local addresses are
+ *                   rejected, and redirects are not followed.
+ *               enabled:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Alert rule created
+ *       400:
+ *         description: Validation error
+ */
+router.get('/rules', authenticateToken, asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const rules = await prisma.alertRule.findMany({
+    where: { userId: req.user!.userId },
+    orderBy: { createdAt: 'desc' },
+    include: { _count: { select: { alerts: true } } },
+  });
+
+  res.json({
+    rules: rules.map(({ _count, ...rule }) => ({
+      ...rule,
+      alertCount: _count.alerts,
+    })),
+  });
+}));
+
+router.post('/rules', authenticateToken, validateRequest(alertRuleCreateSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const account = await prisma.user.findUniqueOrThrow({ where: { id: req.user!.userId }, select: { email: true } });
+  const error = await alertRuleError(req.body, account.email);
+  if (error) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: [`Body: ${error}`],
+    });
+  }
+
+  const { filters = {}, ...fields } = req.body;
+
+  const rule = await prisma.alertRule.create({
+    data: {
+      ...fields,
+      filters,
+      userId: req.user!.userId,
+    },
+    include: { user: { select: { email: true } } },
+  });
+
+  if (rule.enabled) {
+    await evaluateRule(rule);
+  }
+
+  // Re-read so the response carries the state recorded by the first evaluation
+  return res.status(201).json(await prisma.alertRule.findUnique({ where: { id: rule.id } }));
+}));
+
+/**
+ * @swagger
+ * /api/alerts/rules/{id}:
+ *   get:
+ *     summary: Get an alert rule with its recent alerts
+ *     tags: [Alerts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Alert rule
+ *       404:
+ *         description: Alert rule not found
+ *   patch:
+ *     summary: Update an alert rule
+ *     description: Changing type, filters, threshold or windowDays resets the rule's evaluation state.
+ *     tags: [Alerts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Alert rule updated
+ *       404:
+ *         description: Alert rule not found
+ *   delete:
+ *     summary: Delete an alert rule and its alerts
+ *     tags: [Alerts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Alert rule deleted
+ *       404:
+ *         description: Alert rule not found
+ */
+router.get('/rules/:id', authenticateToken, validateRequest(idSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const rule = await prisma.alertRule.findFirst({
+    where: { id: req.params.id, userId: req.user!.userId },
+    include: {
+      alerts: {
+        orderBy: { createdAt: 'desc' },
+        take: 20,
+      },
+    },
+  });
+
+  if (!rule) {
+    return res.status(404).json({
+      error: 'Alert rule not found',
+    });
+  }
+
+  return res.json(rule);
+}));
+
+router.patch('/rules/:id', authenticateToken, validateRequest(alertRuleUpdateSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const existing = await findOwnRule(req.params.id, req.user!.userId);
+
+  if (!existing) {
+    return res.status(404).json({
+      error: 'Alert rule not found',
+    });
+  }
+
+  const error = await alertRuleError({ ...existing, ...req.body }, existing.user.email);
+  if (error) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: [`Body: ${error}`],
+    });
+  }
+
+  const conditionChanged = CONDITION_FIELDS.some((field) => req.body[field] !== undefined);
+
+  const rule = await prisma.alertRule.update({
+    where: { id: existing.id },
+    data: {
+      ...req.body,
+      ...(conditionChanged && { state: Prisma.DbNull }),
+    },
+    include: { user: { select: { email: true } } },
+  });
+
+  if (rule.enabled && (conditionChanged || !existing.enabled)) {
+    await evaluateRule(rule);
+  }
+
+  return res.json(await prisma.alertRule.findUnique({ where: { id: rule.id } }));
+}));
+
+router.delete('/rules/:id', authenticateToken, validateRequest(idSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { count } = await prisma.alertRule.deleteMany({
+    where: { id: req.params.id, userId: req.user!.userId },
+  });
+
+  if (count === 0) {
+    return res.status(404).json({
+      error: 'Alert rule not found',
+    });
+  }
+
+  return res.status(204).send();
+}));
+
+/**
+ * @swagger
+ * /api/alerts/rules/{id}/evaluate:
+ *   post:
+ *     summary: Evaluate an alert rule now
+ *     description: Runs the rule immediately, e.g. to test delivery, and returns the alert it raised, if any.
+ *     tags: [Alerts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The alert raised, or null
+ *       404:
+ *         description: Alert rule not found
+ */
+router.post('/rules/:id/evaluate', authenticateToken, validateRequest(idSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const rule = await findOwnRule(req.params.id, req.user!.userId);
+
+  if (!rule) {
+    return res.status(404).json({
+      error: 'Alert rule not found',
+    });
+  }
+
+  const alert = await evaluateRule(rule);
+
+  return res.json({ alert });
+}));
+
+/**
+ * @swagger
+ * /api/alerts/{id}/read:
+ *   post:
+ *     summary: Mark an alert as read
+ *     tags: [Alerts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Alert marked as read
+ *       404:
+ *         description: Alert not found
+ */
+router.post('/:id/read', authenticateToken, validateRequest(idSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const alert = await prisma.alert.findFirst({
+    where: { id: req.params.id, userId: req.user!.userId },
+  });
+
+  if (!alert) {
+    return res.status(404).json({
+      error: 'Alert not found',
+    });
+  }
+
+  const updated = await prisma.alert.update({
+    where: { id: alert.id },
+    data: { readAt: alert.readAt || new Date() },
+  });
+
+  return res.json(updated);
+}));
+
+export default router;
@@ -1,26 +1,104 @@
 import express from 'express';
 import Joi from 'joi';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../utils/prisma';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requireRole, AuthenticatedRequest } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
 import { validateRequest } from '../middleware/validation';
+import { conflictFields, placeFields, conflictCreateBody, toConflictData, toPlaceNames, fatalityRangeError } from '../models/conflictSchema';
+import { conflictFilterSchema, conflictListFields, polygonGeometry } from '../models/conflictFilterSchema';
+import { createConflict, updateConflict, deleteConflict, revertConflict, RevisionError } from '../services/conflictHistory';
+import { attachGeography } from '../services/geography';
+import { applyGeocoding } from '../services/geocoding';
+import { countConflicts, groupConflicts, fatalityRange, fatalityPercentiles, comparePeriods, conflictTimeseries, TimeseriesError, TimeseriesInterval, TimeseriesGroup } from '../services/conflictStats';
+import { loadEventTaxonomy, normalizeEventType } from '../services/eventTypes';
+import { buildConflictFilter } from '../services/conflictFilters';
+import { listConflicts, CursorError } from '../services/conflictList';
+import { aggregateGrid, GridShape } from '../services/conflictGrid';
+import { conflictExporters, EXPORT_FORMATS, ExportFormat, ExportSortField } from '../services/conflictExport';
+import { logger } from '../utils/logger';
 
 const router = express.Router();
 
 const conflictQuerySchema = {
-  query: Joi.object({
-    page: Joi.number().integer().min(1).default(1),
-    limit: Joi.number().integer().min(1).max(1000).default(10),
-    country: Joi.string().optional(),
-    region: Joi.string().optional(),
-    eventType: Joi.string().optional(),
-    startDate: Joi.date().optional(),
-    endDate: Joi.date().optional(),
-    sortBy: Joi.string().valid('date', 'fatalities', 'country', 'eventType').default('date'),
+  query: conflictFilterSchema.keys(conflictListFields),
+};
+
+const conflictSearchSchema = {
+  body: conflictFilterSchema.keys({
+    ...conflictListFields,
+    polygon: polygonGeometry,
+  }),
+};
+
+const conflictGridSchema = {
+  query: conflictFilterSchema.keys({
+    cellSize: Joi.number().min(0.01).max(30).default(1),
+    shape: Joi.string().valid('square', 'hex').default('square'),
+  }),
+};
+
+const conflictTimeseriesSchema = {
+  query: conflictFilterSchema.keys({
+    interval: Joi.string().valid('day', 'week', 'month', 'year').default('month'),
+    groupBy: Joi.string().valid('region', 'country', 'eventType').optional(),
+  }),
+};
+
+const conflictStatsSchema = {
+  query: conflictFilterSchema.keys({
+    recentDays: Joi.number().integer().min(1).max(3650).default(30),
+    top: Joi.number().integer().min(1).max(100).default(10),
+  }),
+};
+
+const conflictExportSchema = {
+  query: conflictFilterSchema.keys({
+    format: Joi.string().valid(...EXPORT_FORMATS).default('json'),
+    sortBy: Joi.string().valid('date', 'country', 'eventType').default('date'),
     sortOrder: Joi.string().valid('asc', 'desc').default('desc'),
   }),
 };
 
+const conflictCompareSchema = {
+  query: conflictFilterSchema.keys({
+    startDate: Joi.forbidden(),
+    endDate: Joi.forbidden(),
+    currentStart: Joi.date().required(),
+    currentEnd: Joi.date().min(Joi.ref('currentStart')).required(),
+    previousStart: Joi.date(),
+    previousEnd: Joi.date().min(Joi.ref('previousStart')),
+    alpha: Joi.number().greater(0).max(0.5).default(0.05),
+  }).and('previousStart', 'previousEnd'),
+};
+
+const conflictIdSchema = {
+  params: Joi.object({
+    id: Joi.string().required(),
+  }),
+};
+
+const conflictCreateSchema = {
+  body: conflictCreateBody,
+};
+
+const conflictReplaceSchema = {
+  params: conflictIdSchema.params,
+  body: conflictCreateSchema.body,
+};
+
+const revertSchema = {
+  params: conflictIdSchema.params,
+  body: Joi.object({
+    revisionId: Joi.string().required(),
+  }),
+};
+
+const conflictPatchSchema = {
+  params: conflictIdSchema.params,
+  body: Joi.object({ ...conflictFields, ...placeFields }).min(1),
+};
+
 /**
  * @swagger
  * /api/conflicts:
@@ -35,7 +113,20 @@ const conflictQuerySchema = {
  *         schema:
  *           type: integer
  *           minimum: 1
- *         description: Page number
+ *         description: Page number (offset pagination; not allowed with cursor)
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: >
+ *           Keyset pagination: pass the nextCursor of the previous response, with
+ *           the same sortBy and sortOrder. Pages stay stable while conflicts are
+ *           inserted, and no total is computed. Not available for relevance sorting.
+ *       - in: query
+ *         name: fields
+ *         schema:
+ *           type: string
+ *         description: Comma-separated conflict fields to return, e.g. id,date,latitude,longitude (id is always included)
  *       - in: query
  *         name: limit
  *         schema:
@@ -44,20 +135,115 @@ const conflictQuerySchema = {
  *           maximum: 100
  *         description: Number of items per page
  *       - in: query
- *         name: country
+ *         name: q
  *         schema:
  *           type: string
- *         description: Filter by country
+ *         description: >
+ *           Full-text search over title and description (quoted phrases, "or" and
+ *           -word are supported). Each result gets a `search` object with its rank
+ *           and highlighted title and description snippet, as escaped HTML with
+ *           matches in <mark> tags.
+ *       - in: query
+ *         name: country
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: string
+ *         style: form
+ *         explode: true
+ *         description: >
+ *           Filter by country. Repeat the parameter or separate values with commas
+ *           to match any of them (quote a name containing a comma, e.g.
+ *           "Bonaire, Saint Eustatius and Saba").
  *       - in: query
  *         name: region
  *         schema:
- *           type: string
- *         description: Filter by region
+ *           type: array
+ *           items:
+ *             type: string
+ *         description: Filter by region (one or more, as for country)
  *       - in: query
  *         name: eventType
  *         schema:
+ *           type: array
+ *           items:
+ *             type: string
+ *         description: Filter by event type (one or more, as for country)
+ *       - in: query
+ *         name: excludeCountry
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: string
+ *         description: Exclude these countries
+ *       - in: query
+ *         name: excludeRegion
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: string
+ *         description: Exclude these regions
+ *       - in: query
+ *         name: excludeEventType
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: string
+ *         description: Exclude these event types
+ *       - in: query
+ *         name: match
+ *         schema:
  *           type: string
- *         description: Filter by event type
+ *           enum: [contains, exact]
+ *           default: contains
+ *         description: Compare country, region and event type values as substrings or as whole names (case-insensitive either way)
+ *       - in: query
+ *         name: minFatalities
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *         description: Minimum reported fatalities; conflicts with unknown fatalities are excluded
+ *       - in: query
+ *         name: maxFatalities
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *         description: Maximum reported fatalities
+ *       - in: query
+ *         name: actorId
+ *         schema:
+ *           type: string
+ *         description: Filter by actor ID
+ *       - in: query
+ *         name: actor
+ *         schema:
+ *           type: string
+ *         description: Filter by actor name
+ *       - in: query
+ *         name: countryIso
+ *         schema:
+ *           type: string
+ *         description: Filter by ISO 3166-1 alpha-2 or alpha-3 country code (exact)
+ *       - in: query
+ *         name: admin1Id
+ *         schema:
+ *           type: string
+ *         description: Filter by first-level administrative unit
+ *       - in: query
+ *         name: admin2Id
+ *         schema:
+ *           type: string
+ *         description: Filter by second-level administrative unit
+ *       - in: query
+ *         name: locationId
+ *         schema:
+ *           type: string
+ *         description: Filter by named location
+ *       - in: query
+ *         name: locationMismatch
+ *         schema:
+ *           type: boolean
+ *         description: Only conflicts whose stated country does (true) or does not (false) contradict their coordinates
  *       - in: query
  *         name: startDate
  *         schema:
@@ -70,83 +256,219 @@ const conflictQuerySchema = {
  *           type: string
  *           format: date
  *         description: Filter by end date
+ *       - in: query
+ *         name: bbox
+ *         schema:
+ *           type: string
+ *         description: Bounding box as minLon,minLat,maxLon,maxLat (minLon > maxLon crosses the antimeridian)
+ *       - in: query
+ *         name: latitude
+ *         schema:
+ *           type: number
+ *         description: Centre latitude for a radius search (with longitude and radiusKm)
+ *       - in: query
+ *         name: longitude
+ *         schema:
+ *           type: number
+ *         description: Centre longitude for a radius search
+ *       - in: query
+ *         name: radiusKm
+ *         schema:
+ *           type: number
+ *         description: Radius in kilometres around latitude/longitude
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [date, fatalities, country, eventType, relevance]
+ *         description: Sort field; relevance requires q and is the default when q is given
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
  *     responses:
  *       200:
- *         description: List of conflicts
+ *         description: >
+ *           List of conflicts. pagination has page, total, totalPages and hasPrev
+ *           for offset pages, and limit, hasNext and nextCursor for both kinds.
+ *       400:
+ *         description: Validation error or invalid cursor
  *       401:
  *         description: Unauthorized
  */
 router.get('/', authenticateToken, validateRequest(conflictQuerySchema), asyncHandler(async (req, res) => {
-  const {
-    page = 1,
-    limit = 10,
-    country,
-    region,
-    eventType,
-    startDate,
-    endDate,
-    sortBy = 'date',
-    sortOrder = 'desc'
-  } = req.query;
-
-  const skip = (Number(page) - 1) * Number(limit);
-
-  const where: any = {};
-
-  if (country) {
-    where.country = {
-      contains: String(country),
-      mode: 'insensitive',
-    };
+  try {
+    return res.json(await listConflicts(req.query));
+  } catch (error) {
+    if (error instanceof CursorError) {
+      return res.status(400).json({
+        error: error.message,
+      });
+    }
+    throw error;
   }
+}));
 
-  if (region) {
-    where.region = {
-      contains: String(region),
-      mode: 'insensitive',
-    };
-  }
+/**
+ * @swagger
+ * /api/conflicts/search:
+ *   post:
+ *     summary: Search conflicts with a polygon and the list filters
+ *     description: >
+ *       Accepts every query parameter of GET /api/conflicts as a JSON body, plus
+ *       a GeoJSON Polygon or MultiPolygon geometry (longitude, latitude order)
+ *       that conflicts must fall inside. The response has the same shape as the list.
+ *     tags: [Conflicts]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               polygon:
+ *                 type: object
+ *                 description: GeoJSON Polygon or MultiPolygon geometry
+ *                 example:
+ *                   type: Polygon
+ *                   coordinates: [[[36.0, 35.5], [38.5, 35.5], [38.5, 37.5], [36.0, 37.5], [36.0, 35.5]]]
+ *               bbox:
+ *                 type: string
+ *               latitude:
+ *                 type: number
+ *               longitude:
+ *                 type: number
+ *               radiusKm:
+ *                 type: number
+ *               page:
+ *                 type: integer
+ *               limit:
+ *                 type: integer
+ *               cursor:
+ *                 type: string
+ *               fields:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: List of conflicts
+ *       400:
+ *         description: Validation error
+ */
+router.post('/search', authenticateToken, validateRequest(conflictSearchSchema), asyncHandler(async (req, res) => {
+  const { polygon, ...params } = req.body;
 
-  if (eventType) {
-    where.eventType = {
-      contains: String(eventType),
-      mode: 'insensitive',
-    };
+  try {
+    return res.json(await listConflicts(params, polygon));
+  } catch (error) {
+    if (error instanceof CursorError) {
+      return res.status(400).json({
+        error: error.message,
+      });
+    }
+    throw error;
   }
+}));
 
-  if (startDate || endDate) {
-    where.date = {};
-    if (startDate) where.date.gte = new Date(String(startDate));
-    if (endDate) where.date.lte = new Date(String(endDate));
-  }
+/**
+ * @swagger
+ * /api/conflicts/grid:
+ *   get:
+ *     summary: Aggregate conflicts into a square or hexagonal grid
+ *     description: >
+ *       Bins the conflicts matching the list filters (q, country, region,
+ *       eventType, actor, geography, dates, bbox, radius) into grid cells and
+ *       returns a GeoJSON FeatureCollection of cell polygons with event counts
+ *       and fatality sums. Empty cells are omitted.
+ *     tags: [Conflicts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: cellSize
+ *         schema:
+ *           type: number
+ *           minimum: 0.01
+ *           maximum: 30
+ *           default: 1
+ *         description: Cell width in degrees
+ *       - in: query
+ *         name: shape
+ *         schema:
+ *           type: string
+ *           enum: [square, hex]
+ *           default: square
+ *     responses:
+ *       200:
+ *         description: GeoJSON FeatureCollection with count and fatalities per cell
+ */
+router.get('/grid', authenticateToken, validateRequest(conflictGridSchema), asyncHandler(async (req, res) => {
+  const { cellSize = 1, shape = 'square', ...filters } = req.query;
 
-  const orderBy = {
-    [String(sortBy)]: String(sortOrder),
-  };
+  const { where } = buildConflictFilter(filters);
+  const grid = await aggregateGrid(where, {
+    cellSize: Number(cellSize),
+    shape: String(shape) as GridShape,
+  });
 
-  const [conflicts, total] = await Promise.all([
-    prisma.conflict.findMany({
-      where,
-      skip,
-      take: Number(limit),
-      orderBy,
-    }),
-    prisma.conflict.count({ where }),
-  ]);
+  res.type('application/geo+json').json(grid);
+}));
+
+/**
+ * @swagger
+ * /api/conflicts/timeseries:
+ *   get:
+ *     summary: Event counts and fatalities over time
+ *     description: >
+ *       Buckets the conflicts matching the list filters by day, week (starting
+ *       Monday), month or year. Periods run without gaps from startDate (or the
+ *       earliest match) to endDate (or the latest match). With groupBy, one
+ *       series is returned per region, country or event type, largest first.
+ *     tags: [Conflicts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: interval
+ *         schema:
+ *           type: string
+ *           enum: [day, week, month, year]
+ *           default: month
+ *       - in: query
+ *         name: groupBy
+ *         schema:
+ *           type: string
+ *           enum: [region, country, eventType]
+ *     responses:
+ *       200:
+ *         description: Period labels and one events/fatalities array per series
+ *       400:
+ *         description: Validation error or too many periods
+ */
+router.get('/timeseries', authenticateToken, validateRequest(conflictTimeseriesSchema), asyncHandler(async (req, res) => {
+  const { interval = 'month', groupBy, ...filters } = req.query;
 
-  const totalPages = Math.ceil(total / Number(limit));
+  const { where } = buildConflictFilter(filters);
 
-  res.json({
-    conflicts,
-    pagination: {
-      page: Number(page),
-      limit: Number(limit),
-      total,
-      totalPages,
-      hasNext: Number(page) < totalPages,
-      hasPrev: Number(page) > 1,
-    },
-  });
+  try {
+    const timeseries = await conflictTimeseries(where, {
+      interval: String(interval) as TimeseriesInterval,
+      groupBy: groupBy ? String(groupBy) as TimeseriesGroup : undefined,
+      from: filters.startDate ? new Date(String(filters.startDate)) : undefined,
+      to: filters.endDate ? new Date(String(filters.endDate)) : undefined,
+    });
+
+    return res.json(timeseries);
+  } catch (error) {
+    if (error instanceof TimeseriesError) {
+      return res.status(400).json({
+        error: error.message,
+      });
+    }
+    throw error;
+  }
 }));
 
 /**
@@ -154,62 +476,172 @@ router.get('/', authenticateToken, validateRequest(conflictQuerySchema), asyncHa
  * /api/conflicts/stats:
  *   get:
  *     summary: Get conflict statistics
+ *     description: >
+ *       Accepts every filter of GET /api/conflicts. totalFatalities sums best
+ *       estimates; fatalityRange gives low/best/high totals and the number of
+ *       events with unknown fatalities, and unknownFatalitiesShare their share
+ *       of all matching events. fatalityPercentiles are nearest-rank percentiles
+ *       of the best estimate over events with a known count. recentConflicts
+ *       counts events in the recentDays before endDate (or now).
  *     tags: [Conflicts]
  *     security:
  *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: recentDays
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 3650
+ *           default: 30
+ *         description: Length of the "recent" window in days
+ *       - in: query
+ *         name: top
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 10
+ *         description: Number of countries in topCountries
  *     responses:
  *       200:
- *         description: Conflict statistics
+ *         description: Conflict statistics for the matching events
  */
-router.get('/stats', authenticateToken, asyncHandler(async (req, res) => {
+router.get('/stats', authenticateToken, validateRequest(conflictStatsSchema), asyncHandler(async (req, res) => {
+  const { recentDays = 30, top = 10, ...filters } = req.query;
+
+  const { where } = buildConflictFilter(filters);
+  const recentUntil = filters.endDate ? new Date(String(filters.endDate)) : new Date();
+  const recentSince = new Date(recentUntil.getTime() - Number(recentDays) * 24 * 60 * 60 * 1000);
+
   const [
-    totalConflicts,
-    totalFatalities,
+    totals,
     conflictsByRegion,
     conflictsByEventType,
-    recentConflicts
+    topCountries,
+    recent,
+    fatalities,
+    percentiles
   ] = await Promise.all([
-    prisma.conflict.count(),
-    prisma.conflict.aggregate({
-      _sum: { fatalities: true }
-    }),
-    prisma.conflict.groupBy({
-      by: ['region'],
-      _count: true
-    }),
-    prisma.conflict.groupBy({
-      by: ['eventType'],
-      _count: true
-    }),
-    prisma.conflict.count({
-      where: {
-        date: {
-          gte: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000) // Last 30 days
-        }
-      }
-    })
+    countConflicts(where),
+    groupConflicts(where, 'region'),
+    groupConflicts(where, 'eventType'),
+    groupConflicts(where, 'country', Number(top)),
+    countConflicts(Prisma.sql`(${where}) AND c."date" BETWEEN ${recentSince} AND ${recentUntil}`),
+    fatalityRange(where),
+    fatalityPercentiles(where)
   ]);
 
   res.json({
-    totalConflicts,
-    totalFatalities: totalFatalities._sum.fatalities || 0,
-    recentConflicts,
-    conflictsByRegion: conflictsByRegion.map((item: any) => ({
-      region: item.region,
-      count: item._count
+    totalConflicts: totals.events,
+    totalFatalities: totals.fatalities,
+    fatalityRange: fatalities,
+    fatalityPercentiles: percentiles,
+    unknownFatalitiesShare: totals.events > 0 ? fatalities.unknownCount / totals.events : 0,
+    recentDays: Number(recentDays),
+    recentConflicts: recent.events,
+    topCountries: topCountries.map((item) => ({
+      country: item.group,
+      count: item.events,
+      fatalities: item.fatalities
+    })),
+    conflictsByRegion: conflictsByRegion.map((item) => ({
+      region: item.group,
+      count: item.events
     })),
-    conflictsByEventType: conflictsByEventType.map((item: any) => ({
-      eventType: item.eventType,
-      count: item._count
+    conflictsByEventType: conflictsByEventType.map((item) => ({
+      eventType: item.group,
+      count: item.events
     }))
   });
 }));
 
+/**
+ * @swagger
+ * /api/conflicts/compare:
+ *   get:
+ *     summary: Compare two date windows
+ *     description: >
+ *       Events and fatalities in a current and a previous window for the conflicts
+ *       matching the list filters (startDate/endDate are replaced by the windows),
+ *       in total and per country and event type, with deltas and percentage change.
+ *       Without previousStart/previousEnd the previous window is the one of equal
+ *       length immediately before the current one. An increase in events is
+ *       flagged as unusual when a binomial test of the two counts, scaled by window
+ *       length, gives a one-sided p-value below alpha after Benjamini–Hochberg
+ *       adjustment across the groups of byCountry, or of byEventType (pValue is the
+ *       raw value, adjustedPValue the adjusted one). With many groups, expect about
+ *       alpha of the flagged groups to be false positives, rather than alpha of all groups.
+ *     tags: [Conflicts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: currentStart
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: currentEnd
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: previousStart
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: previousEnd
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: alpha
+ *         schema:
+ *           type: number
+ *           default: 0.05
+ *         description: False discovery rate for unusualIncrease
+ *     responses:
+ *       200:
+ *         description: Totals, byCountry and byEventType comparisons
+ */
+router.get('/compare', authenticateToken, validateRequest(conflictCompareSchema), asyncHandler(async (req, res) => {
+  const { currentStart, currentEnd, previousStart, previousEnd, alpha = 0.05, ...filters } = req.query;
+
+  const current = {
+    start: new Date(String(currentStart)),
+    end: new Date(String(currentEnd)),
+  };
+  const previous = previousStart
+    ? { start: new Date(String(previousStart)), end: new Date(String(previousEnd)) }
+    : {
+      start: new Date(2 * current.start.getTime() - current.end.getTime() - 1),
+      end: new Date(current.start.getTime() - 1),
+    };
+
+  const { where } = buildConflictFilter(filters);
+  const comparison = await comparePeriods(where, { current, previous, alpha: Number(alpha) });
+
+  res.json(comparison);
+}));
+
 /**
  * @swagger
  * /api/conflicts/export:
  *   get:
  *     summary: Export conflicts data
+ *     description: >
+ *       Accepts the filters of GET /api/conflicts and streams every matching
+ *       conflict, read from the database in batches, so large exports do not
+ *       need to fit in memory. CSV output follows RFC 4180 (quoted fields, CRLF
+ *       line endings). geojson is a FeatureCollection of points carrying every
+ *       field, kml has one timestamped placemark per conflict, and gpkg is an OGC
+ *       GeoPackage with a "conflicts" point layer in WGS 84. xlsx has typed
+ *       columns and an "About" sheet describing the fields, the filters applied,
+ *       the export time and how to cite the data.
  *     tags: [Conflicts]
  *     security:
  *       - bearerAuth: []
@@ -218,58 +650,50 @@ router.get('/stats', authenticateToken, asyncHandler(async (req, res) => {
  *         name: format
  *         schema:
  *           type: string
- *           enum: [json, csv]
+ *           enum: [json, csv, geojson, kml, gpkg, xlsx]
+ *           default: json
  *         description: Export format
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [date, country, eventType]
+ *           default: date
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *           default: desc
  *     responses:
  *       200:
  *         description: Exported data
+ *       400:
+ *         description: Validation error
  */
-router.get('/export', authenticateToken, asyncHandler(async (req, res) => {
-  const { format = 'json' } = req.query;
+router.get('/export', authenticateToken, validateRequest(conflictExportSchema), asyncHandler(async (req, res) => {
+  const { format = 'json', sortBy = 'date', sortOrder = 'desc', ...filters } = req.query;
 
-  const conflicts = await prisma.conflict.findMany({
-    orderBy: { date: 'desc' }
-  });
+  const { where } = buildConflictFilter(filters);
+  const exporter = conflictExporters[format as ExportFormat];
 
-  if (format === 'csv') {
-    const csvHeaders = [
-      'ID',
-      'Title',
-      'Country',
-      'Region',
-      'Event Type',
-      'Date',
-      'Fatalities',
-      'Latitude',
-      'Longitude',
-      'Source'
-    ].join(',');
-
-    const csvRows = conflicts.map((conflict: { id: any; title: string; country: any; region: any; eventType: any; date: { toISOString: () => string; }; fatalities: any; latitude: any; longitude: any; source: any; }) => [
-      conflict.id,
-      `"${conflict.title.replace(/"/g, '""')}"`,
-      conflict.country,
-      conflict.region,
-      conflict.eventType,
-      conflict.date.toISOString().split('T')[0],
-      conflict.fatalities || 0,
-      conflict.latitude,
-      conflict.longitude,
-      conflict.source
-    ].join(',')).join('\n');
-
-    const csvContent = [csvHeaders, csvRows].join('\n');
-
-    res.setHeader('Content-Type', 'text/csv');
-    res.setHeader('Content-Disposition', 'attachment; filename=conflicts.csv');
-    return res.send(csvContent);
-  } else {
-    return res.json({
-      exportDate: new Date().toISOString(),
-      totalRecords: conflicts.length,
-      data: conflicts
+  res.setHeader('Content-Type', exporter.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename=conflicts.${exporter.extension}`);
+
+  try {
+    await exporter.write(res, where, {
+      sortBy: sortBy as ExportSortField,
+      sortOrder: sortOrder as 'asc' | 'desc',
+      filters,
     });
+  } catch (error) {
+    // Once streaming has started the status is sent; all that is left is to cut the response short
+    if (!res.headersSent) throw error;
+    logger.warn(`Conflict export aborted: ${error instanceof Error ? error.message : error}`);
+    return res.destroy();
   }
+
+  return res.end();
 }));
 
 /**
@@ -288,7 +712,7 @@ router.get('/export', authenticateToken, asyncHandler(async (req, res) => {
  *           type: string
  *     responses:
  *       200:
- *         description: Conflict details
+ *         description: Conflict details, including provenance sources for merged records
  *       404:
  *         description: Conflict not found
  */
@@ -297,6 +721,14 @@ router.get('/:id', authenticateToken, asyncHandler(async (req, res) => {
 
   const conflict = await prisma.conflict.findUnique({
     where: { id },
+    include: {
+      sources: { orderBy: { mergedAt: 'asc' } },
+      actors: { include: { actor: true } },
+      geoCountry: true,
+      admin1: true,
+      admin2: true,
+      location: true,
+    },
   });
 
   if (!conflict) {
@@ -308,4 +740,411 @@ router.get('/:id', authenticateToken, asyncHandler(async (req, res) => {
   return res.json(conflict);
 }));
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ConflictInput:
+ *       type: object
+ *       properties:
+ *         title:
+ *           type: string
+ *         description:
+ *           type: string
+ *           nullable: true
+ *         country:
+ *           type: string
+ *           description: Derived from the coordinates when omitted
+ *         region:
+ *           type: string
+ *           description: Derived from the coordinates (UN M49 subregion) when omitted
+ *         latitude:
+ *           type: number
+ *           minimum: -90
+ *           maximum: 90
+ *         longitude:
+ *           type: number
+ *           minimum: -180
+ *           maximum: 180
+ *         date:
+ *           type: string
+ *           format: date
+ *         fatalities:
+ *           type: integer
+ *           minimum: 0
+ *           nullable: true
+ *         eventType:
+ *           type: string
+ *           description: Event type from /api/event-types (matched case-insensitively)
+ *         subEventType:
+ *           type: string
+ *           nullable: true
+ *           description: Sub-event type belonging to the event type
+ *         source:
+ *           type: string
+ *         admin1:
+ *           type: string
+ *           description: First-level administrative unit name, linked to the geography reference tables
+ *         admin2:
+ *           type: string
+ *           description: Second-level administrative unit name (requires admin1)
+ *         location:
+ *           type: string
+ *           description: Named location
+ */
+
+/**
+ * @swagger
+ * /api/conflicts:
+ *   post:
+ *     summary: Create a conflict event (Admin only)
+ *     tags: [Conflicts]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/ConflictInput'
+ *               - required: [title, latitude, longitude, date, eventType]
+ *     responses:
+ *       201:
+ *         description: Conflict created
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/', authenticateToken, requireRole(['ADMIN']), validateRequest(conflictCreateSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { values, places } = applyGeocoding(toConflictData(req.body), toPlaceNames(req.body));
+
+  if (!values.country || !values.region) {
+    return res.status(400).json({
+      error: 'Country and region are required when they cannot be derived from the coordinates',
+    });
+  }
+
+  const taxonomyError = normalizeEventType(await loadEventTaxonomy(), values);
+  if (taxonomyError) {
+    return res.status(400).json({
+      error: taxonomyError,
+    });
+  }
+
+  const data = await attachGeography(prisma, values, places);
+  const conflict = await createConflict(data, req.user);
+
+  return res.status(201).json(conflict);
+}));
+
+/**
+ * @swagger
+ * /api/conflicts/{id}:
+ *   put:
+ *     summary: Replace a conflict event (Admin only)
+ *     description: >
+ *       Every field left out is cleared: optional fields become null, source
+ *       reverts to ACLED and the geography links are resolved afresh.
+ *     tags: [Conflicts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/ConflictInput'
+ *               - required: [title, latitude, longitude, date, eventType]
+ *     responses:
+ *       200:
+ *         description: Conflict updated
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Conflict not found
+ *   patch:
+ *     summary: Partially update a conflict event (Admin only)
+ *     tags: [Conflicts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ConflictInput'
+ *     responses:
+ *       200:
+ *         description: Conflict updated
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Conflict not found
+ */
+router.put('/:id', authenticateToken, requireRole(['ADMIN']), validateRequest(conflictReplaceSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+
+  const existing = await prisma.conflict.findUnique({ where: { id } });
+
+  if (!existing) {
+    return res.status(404).json({
+      error: 'Conflict not found',
+    });
+  }
+
+  // A full replacement clears every optional field the caller left out
+  const { values, places } = applyGeocoding({
+    description: null,
+    fatalities: null,
+    fatalitiesMin: null,
+    fatalitiesMax: null,
+    datePrecision: null,
+    locationPrecision: null,
+    subEventType: null,
+    source: 'ACLED',
+    locationMismatch: false,
+    ...toConflictData(req.body),
+  }, toPlaceNames(req.body));
+
+  const rangeError = fatalityRangeError(values);
+  if (rangeError) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: [`Body: ${rangeError}`],
+    });
+  }
+
+  if (!values.country || !values.region) {
+    return res.status(400).json({
+      error: 'Country and region are required when they cannot be derived from the coordinates',
+    });
+  }
+
+  const taxonomyError = normalizeEventType(await loadEventTaxonomy(), values);
+  if (taxonomyError) {
+    return res.status(400).json({
+      error: taxonomyError,
+    });
+  }
+
+  const data = await attachGeography(prisma, values, places || {});
+  const conflict = await updateConflict(id, data, req.user);
+
+  return res.json(conflict);
+}));
+
+router.patch('/:id', authenticateToken, requireRole(['ADMIN']), validateRequest(conflictPatchSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+
+  const existing = await prisma.conflict.findUnique({ where: { id } });
+
+  if (!existing) {
+    return res.status(404).json({
+      error: 'Conflict not found',
+    });
+  }
+
+  const data = toConflictData(req.body);
+
+  const rangeError = fatalityRangeError({ ...existing, ...data });
+  if (rangeError) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: [`Body: ${rangeError}`],
+    });
+  }
+
+  // A new event type is checked against the existing sub-event type and vice versa
+  if (data.eventType !== undefined || data.subEventType !== undefined) {
+    const classification = {
+      eventType: data.eventType ?? existing.eventType,
+      subEventType: data.subEventType !== undefined ? data.subEventType : existing.subEventType,
+    };
+
+    const taxonomyError = normalizeEventType(await loadEventTaxonomy(), classification);
+    if (taxonomyError) {
+      return res.status(400).json({
+        error: taxonomyError,
+      });
+    }
+
+    Object.assign(data, classification);
+  }
+
+  const relocated = ['country', 'latitude', 'longitude'].some((field) => data[field] !== undefined);
+
+  // Re-resolve the geography links when the country, coordinates or any place name changes
+  if (relocated || toPlaceNames(req.body)) {
+    const { values, places } = applyGeocoding({
+      country: existing.country,
+      region: existing.region,
+      latitude: existing.latitude,
+      longitude: existing.longitude,
+      ...data,
+    }, toPlaceNames(req.body));
+    const { countryId, admin1Id, admin2Id, locationId } = await attachGeography(prisma, values, places);
+
+    Object.assign(data, {
+      countryId,
+      admin1Id,
+      admin2Id,
+      locationId,
+      locationMismatch: values.locationMismatch,
+    });
+  }
+
+  const conflict = await updateConflict(id, data, req.user);
+
+  return res.json(conflict);
+}));
+
+/**
+ * @swagger
+ * /api/conflicts/{id}:
+ *   delete:
+ *     summary: Delete a conflict event (Admin only)
+ *     tags: [Conflicts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Conflict deleted
+ *       403:
+ *         description: Insufficient permissions
+ *       404:
+ *         description: Conflict not found
+ */
+router.delete('/:id', authenticateToken, requireRole(['ADMIN']), validateRequest(conflictIdSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+
+  const existing = await prisma.conflict.findUnique({ where: { id } });
+
+  if (!existing) {
+    return res.status(404).json({
+      error: 'Conflict not found',
+    });
+  }
+
+  await deleteConflict(id, req.user);
+
+  return res.status(204).send();
+}));
+
+/**
+ * @swagger
+ * /api/conflicts/{id}/history:
+ *   get:
+ *     summary: Get the revision history of a conflict
+ *     description: >
+ *       Revisions are listed newest first. Each carries the acting user's id, the
+ *       field-level changes (from/to) and a snapshot of the record and its actor
+ *       links after the change.
+ *       The acting user's email (userEmail) is only included for admins.
+ *       History is kept for deleted conflicts. A conflict that predates history
+ *       starts with a BASELINE revision holding its original state, recorded on
+ *       its first change; one never changed has an empty list.
+ *     tags: [Conflicts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Revision history, empty when there is none
+ */
+router.get('/:id/history', authenticateToken, validateRequest(conflictIdSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+  const isAdmin = req.user!.role === 'ADMIN';
+
+  const revisions = await prisma.conflictRevision.findMany({
+    where: { conflictId: id },
+    orderBy: { version: 'desc' },
+  });
+
+  return res.json({
+    conflictId: id,
+    revisions: revisions.map(({ userEmail, ...revision }) => (isAdmin ? { ...revision, userEmail } : revision)),
+  });
+}));
+
+/**
+ * @swagger
+ * /api/conflicts/{id}/revert:
+ *   post:
+ *     summary: Revert a conflict to an earlier revision (Admin only)
+ *     description: >
+ *       Restores the snapshot of the given revision, actor links included, recreating
+ *       the conflict if it was deleted. Links to actors deleted since are skipped.
+ *     tags: [Conflicts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [revisionId]
+ *             properties:
+ *               revisionId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Conflict reverted
+ *       400:
+ *         description: Unknown revision or revision cannot be restored
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/:id/revert', authenticateToken, requireRole(['ADMIN']), validateRequest(revertSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+
+  try {
+    const conflict = await revertConflict(id, req.body.revisionId, req.user);
+    return res.json(conflict);
+  } catch (error) {
+    if (error instanceof RevisionError) {
+      return res.status(400).json({
+        error: error.message,
+      });
+    }
+    throw error;
+  }
+}));
+
 export default router;
\ No newline at end of file
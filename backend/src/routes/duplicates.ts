@@ -0,0 +1,285 @@
+import express from 'express';
+import Joi from 'joi';
+import { prisma } from '../utils/prisma';
+import { authenticateToken, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validateRequest } from '../middleware/validation';
+import { scanForDuplicates, mergeConflicts, defaultScanOptions, MergeError } from '../services/deduplication';
+
+const router = express.Router();
+
+const candidateSummary = {
+  select: {
+    id: true,
+    title: true,
+    country: true,
+    region: true,
+    date: true,
+    latitude: true,
+    longitude: true,
+    fatalities: true,
+    eventType: true,
+    source: true,
+    externalId: true,
+  },
+};
+
+const scanSchema = {
+  body: Joi.object({
+    maxDays: Joi.number().integer().min(0).max(30).default(defaultScanOptions.maxDays),
+    maxDistanceKm: Joi.number().greater(0).max(500).default(defaultScanOptions.maxDistanceKm),
+    minScore: Joi.number().min(0).max(1).default(defaultScanOptions.minScore),
+    startDate: Joi.date().optional(),
+    endDate: Joi.date().optional(),
+  }),
+};
+
+const listSchema = {
+  query: Joi.object({
+    status: Joi.string().valid('PENDING', 'DISMISSED').default('PENDING'),
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+  }),
+};
+
+const candidateIdSchema = {
+  params: Joi.object({
+    id: Joi.string().required(),
+  }),
+};
+
+const mergeSchema = {
+  ...candidateIdSchema,
+  body: Joi.object({
+    primaryId: Joi.string().optional(),
+  }),
+};
+
+/**
+ * @swagger
+ * /api/duplicates/scan:
+ *   post:
+ *     summary: Scan conflicts for likely duplicates (Admin only)
+ *     description: >
+ *       Pairs events in the same country that are close in date and location
+ *       and scores them on date proximity, distance and title similarity. Pairs
+ *       scoring at least minScore are stored as pending candidates for review.
+ *     tags: [Duplicates]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               maxDays:
+ *                 type: integer
+ *                 default: 2
+ *               maxDistanceKm:
+ *                 type: number
+ *                 exclusiveMinimum: 0
+ *                 default: 25
+ *               minScore:
+ *                 type: number
+ *                 default: 0.6
+ *               startDate:
+ *                 type: string
+ *                 format: date
+ *               endDate:
+ *                 type: string
+ *                 format: date
+ *     responses:
+ *       200:
+ *         description: Scan summary
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/scan', authenticateToken, requireRole(['ADMIN']), validateRequest(scanSchema), asyncHandler(async (req, res) => {
+  const { value } = scanSchema.body.validate(req.body || {});
+
+  const result = await scanForDuplicates(value);
+
+  res.json(result);
+}));
+
+/**
+ * @swagger
+ * /api/duplicates:
+ *   get:
+ *     summary: List duplicate candidates (Admin only)
+ *     tags: [Duplicates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, DISMISSED]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Candidate pairs with both conflicts, highest score first
+ */
+router.get('/', authenticateToken, requireRole(['ADMIN']), validateRequest(listSchema), asyncHandler(async (req, res) => {
+  const { status = 'PENDING', page = 1, limit = 20 } = req.query;
+
+  const where = { status: String(status) as 'PENDING' | 'DISMISSED' };
+
+  const [candidates, total] = await Promise.all([
+    prisma.duplicateCandidate.findMany({
+      where,
+      skip: (Number(page) - 1) * Number(limit),
+      take: Number(limit),
+      orderBy: { score: 'desc' },
+      include: {
+        conflictA: candidateSummary,
+        conflictB: candidateSummary,
+      },
+    }),
+    prisma.duplicateCandidate.count({ where }),
+  ]);
+
+  const totalPages = Math.ceil(total / Number(limit));
+
+  res.json({
+    candidates,
+    pagination: {
+      page: Number(page),
+      limit: Number(limit),
+      total,
+      totalPages,
+      hasNext: Number(page) < totalPages,
+      hasPrev: Number(page) > 1,
+    },
+  });
+}));
+
+/**
+ * @swagger
+ * /api/duplicates/{id}/merge:
+ *   post:
+ *     summary: Merge a duplicate pair (Admin only)
+ *     description: >
+ *       Keeps the primary conflict (conflictA unless primaryId says otherwise),
+ *       records the other as a provenance source on it and deletes it.
+ *     tags: [Duplicates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               primaryId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Merged conflict with its provenance sources
+ *       400:
+ *         description: primaryId is not part of the pair
+ *       404:
+ *         description: Candidate not found
+ */
+router.post('/:id/merge', authenticateToken, requireRole(['ADMIN']), validateRequest(mergeSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+  const { primaryId } = req.body || {};
+
+  const candidate = await prisma.duplicateCandidate.findUnique({ where: { id } });
+
+  if (!candidate) {
+    return res.status(404).json({
+      error: 'Duplicate candidate not found',
+    });
+  }
+
+  const pair = [candidate.conflictAId, candidate.conflictBId];
+  const keep = primaryId || candidate.conflictAId;
+
+  if (!pair.includes(keep)) {
+    return res.status(400).json({
+      error: 'primaryId must be one of the conflicts in this pair',
+    });
+  }
+
+  try {
+    const conflict = await mergeConflicts(keep, pair.filter((c) => c !== keep), req.user);
+    return res.json({
+      message: 'Conflicts merged successfully',
+      conflict,
+    });
+  } catch (error) {
+    if (error instanceof MergeError) {
+      return res.status(400).json({
+        error: error.message,
+      });
+    }
+    throw error;
+  }
+}));
+
+/**
+ * @swagger
+ * /api/duplicates/{id}/dismiss:
+ *   post:
+ *     summary: Mark a candidate pair as not a duplicate (Admin only)
+ *     tags: [Duplicates]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Candidate dismissed
+ *       404:
+ *         description: Candidate not found
+ */
+router.post('/:id/dismiss', authenticateToken, requireRole(['ADMIN']), validateRequest(candidateIdSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { id } = req.params;
+
+  const candidate = await prisma.duplicateCandidate.findUnique({ where: { id } });
+
+  if (!candidate) {
+    return res.status(404).json({
+      error: 'Duplicate candidate not found',
+    });
+  }
+
+  const updated = await prisma.duplicateCandidate.update({
+    where: { id },
+    data: {
+      status: 'DISMISSED',
+      reviewedById: req.user?.userId,
+      reviewedAt: new Date(),
+    },
+  });
+
+  return res.json({
+    message: 'Duplicate candidate dismissed',
+    candidate: updated,
+  });
+}));
+
+export default router;
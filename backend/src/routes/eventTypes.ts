@@ -0,0 +1,490 @@
+import express from 'express';
+import Joi from 'joi';
+import { prisma } from '../utils/prisma';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validateRequest } from '../middleware/validation';
+
+const router = express.Router();
+
+const eventTypeIdSchema = {
+  params: Joi.object({
+    id: Joi.string().required(),
+  }),
+};
+
+const subEventTypeIdSchema = {
+  params: Joi.object({
+    id: Joi.string().required(),
+    subId: Joi.string().required(),
+  }),
+};
+
+const eventTypeCreateSchema = {
+  body: Joi.object({
+    name: Joi.string().trim().max(200).required(),
+    description: Joi.string().trim().allow(null, '').optional(),
+    subEventTypes: Joi.array().items(Joi.string().trim().max(200)).unique().optional(),
+  }),
+};
+
+const eventTypeUpdateSchema = {
+  params: eventTypeIdSchema.params,
+  body: Joi.object({
+    name: Joi.string().trim().max(200),
+    description: Joi.string().trim().allow(null, ''),
+  }).min(1),
+};
+
+const subEventTypeCreateSchema = {
+  params: eventTypeIdSchema.params,
+  body: Joi.object({
+    name: Joi.string().trim().max(200).required(),
+    description: Joi.string().trim().allow(null, '').optional(),
+  }),
+};
+
+const subEventTypeUpdateSchema = {
+  params: subEventTypeIdSchema.params,
+  body: Joi.object({
+    name: Joi.string().trim().max(200),
+    description: Joi.string().trim().allow(null, ''),
+  }).min(1),
+};
+
+/**
+ * @swagger
+ * /api/event-types:
+ *   get:
+ *     summary: List the event type taxonomy
+ *     description: >
+ *       Event types with their sub-event types and the number of conflicts
+ *       recorded under each. Conflict writes and imports are validated against
+ *       this list.
+ *     tags: [Event Types]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Event types with sub-event types
+ */
+router.get('/', authenticateToken, asyncHandler(async (req, res) => {
+  const [eventTypes, eventCounts, subEventCounts] = await Promise.all([
+    prisma.eventType.findMany({
+      orderBy: { name: 'asc' },
+      include: { subEventTypes: { orderBy: { name: 'asc' } } },
+    }),
+    prisma.conflict.groupBy({
+      by: ['eventType'],
+      _count: true,
+    }),
+    prisma.conflict.groupBy({
+      by: ['eventType', 'subEventType'],
+      where: { subEventType: { not: null } },
+      _count: true,
+    }),
+  ]);
+
+  const countFor = (eventType: string) =>
+    eventCounts.find((item: any) => item.eventType === eventType)?._count || 0;
+  const subCountFor = (eventType: string, subEventType: string) =>
+    subEventCounts.find((item: any) => item.eventType === eventType && item.subEventType === subEventType)?._count || 0;
+
+  res.json({
+    eventTypes: eventTypes.map((eventType) => ({
+      ...eventType,
+      eventCount: countFor(eventType.name),
+      subEventTypes: eventType.subEventTypes.map((sub) => ({
+        ...sub,
+        eventCount: subCountFor(eventType.name, sub.name),
+      })),
+    })),
+  });
+}));
+
+/**
+ * @swagger
+ * /api/event-types:
+ *   post:
+ *     summary: Add an event type (Admin only)
+ *     tags: [Event Types]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               subEventTypes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       201:
+ *         description: Event type created
+ *       409:
+ *         description: An event type with this name already exists
+ */
+router.post('/', authenticateToken, requireRole(['ADMIN']), validateRequest(eventTypeCreateSchema), asyncHandler(async (req, res) => {
+  const { name, description, subEventTypes = [] } = req.body;
+
+  const existing = await prisma.eventType.findFirst({
+    where: { name: { equals: name, mode: 'insensitive' } },
+  });
+
+  if (existing) {
+    return res.status(409).json({
+      error: 'Event type with this name already exists',
+    });
+  }
+
+  const eventType = await prisma.eventType.create({
+    data: {
+      name,
+      description: description || null,
+      subEventTypes: {
+        create: subEventTypes.map((sub: string) => ({ name: sub })),
+      },
+    },
+    include: { subEventTypes: true },
+  });
+
+  return res.status(201).json(eventType);
+}));
+
+/**
+ * @swagger
+ * /api/event-types/{id}:
+ *   patch:
+ *     summary: Rename or describe an event type (Admin only)
+ *     description: An event type that conflicts are recorded under cannot be renamed.
+ *     tags: [Event Types]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Event type updated
+ *       404:
+ *         description: Event type not found
+ *       409:
+ *         description: Name taken, or the event type is in use
+ */
+router.patch('/:id', authenticateToken, requireRole(['ADMIN']), validateRequest(eventTypeUpdateSchema), asyncHandler(async (req, res) => {
+  const { id } = req.params;
+  const { name, description } = req.body;
+
+  const existing = await prisma.eventType.findUnique({ where: { id } });
+
+  if (!existing) {
+    return res.status(404).json({
+      error: 'Event type not found',
+    });
+  }
+
+  if (name !== undefined && name !== existing.name) {
+    const [taken, inUse] = await Promise.all([
+      prisma.eventType.findFirst({
+        where: { id: { not: id }, name: { equals: name, mode: 'insensitive' } },
+      }),
+      prisma.conflict.count({ where: { eventType: existing.name } }),
+    ]);
+
+    if (taken) {
+      return res.status(409).json({
+        error: 'Event type with this name already exists',
+      });
+    }
+
+    if (inUse > 0) {
+      return res.status(409).json({
+        error: `Event type is used by ${inUse} conflicts and cannot be renamed`,
+      });
+    }
+  }
+
+  const eventType = await prisma.eventType.update({
+    where: { id },
+    data: {
+      name,
+      ...(description !== undefined && { description: description || null }),
+    },
+    include: { subEventTypes: true },
+  });
+
+  return res.json(eventType);
+}));
+
+/**
+ * @swagger
+ * /api/event-types/{id}:
+ *   delete:
+ *     summary: Delete an event type and its sub-event types (Admin only)
+ *     tags: [Event Types]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Event type deleted
+ *       404:
+ *         description: Event type not found
+ *       409:
+ *         description: The event type is in use
+ */
+router.delete('/:id', authenticateToken, requireRole(['ADMIN']), validateRequest(eventTypeIdSchema), asyncHandler(async (req, res) => {
+  const { id } = req.params;
+
+  const existing = await prisma.eventType.findUnique({ where: { id } });
+
+  if (!existing) {
+    return res.status(404).json({
+      error: 'Event type not found',
+    });
+  }
+
+  const inUse = await prisma.conflict.count({ where: { eventType: existing.name } });
+
+  if (inUse > 0) {
+    return res.status(409).json({
+      error: `Event type is used by ${inUse} conflicts and cannot be deleted`,
+    });
+  }
+
+  await prisma.eventType.delete({ where: { id } });
+
+  return res.status(204).send();
+}));
+
+/**
+ * @swagger
+ * /api/event-types/{id}/sub-event-types:
+ *   post:
+ *     summary: Add a sub-event type (Admin only)
+ *     tags: [Event Types]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Sub-event type created
+ *       404:
+ *         description: Event type not found
+ *       409:
+ *         description: The event type already has a sub-event type with this name
+ */
+router.post('/:id/sub-event-types', authenticateToken, requireRole(['ADMIN']), validateRequest(subEventTypeCreateSchema), asyncHandler(async (req, res) => {
+  const { id } = req.params;
+  const { name, description } = req.body;
+
+  const eventType = await prisma.eventType.findUnique({ where: { id } });
+
+  if (!eventType) {
+    return res.status(404).json({
+      error: 'Event type not found',
+    });
+  }
+
+  const existing = await prisma.subEventType.findFirst({
+    where: { eventTypeId: id, name: { equals: name, mode: 'insensitive' } },
+  });
+
+  if (existing) {
+    return res.status(409).json({
+      error: 'Sub-event type with this name already exists',
+    });
+  }
+
+  const subEventType = await prisma.subEventType.create({
+    data: { eventTypeId: id, name, description: description || null },
+  });
+
+  return res.status(201).json(subEventType);
+}));
+
+/**
+ * @swagger
+ * /api/event-types/{id}/sub-event-types/{subId}:
+ *   patch:
+ *     summary: Rename or describe a sub-event type (Admin only)
+ *     description: A sub-event type that conflicts are recorded under cannot be renamed.
+ *     tags: [Event Types]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: subId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Sub-event type updated
+ *       404:
+ *         description: Sub-event type not found
+ *       409:
+ *         description: Name taken, or the sub-event type is in use
+ *   delete:
+ *     summary: Delete a sub-event type (Admin only)
+ *     tags: [Event Types]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: subId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Sub-event type deleted
+ *       404:
+ *         description: Sub-event type not found
+ *       409:
+ *         description: The sub-event type is in use
+ */
+router.patch('/:id/sub-event-types/:subId', authenticateToken, requireRole(['ADMIN']), validateRequest(subEventTypeUpdateSchema), asyncHandler(async (req, res) => {
+  const { id, subId } = req.params;
+  const { name, description } = req.body;
+
+  const existing = await prisma.subEventType.findFirst({
+    where: { id: subId, eventTypeId: id },
+    include: { eventType: true },
+  });
+
+  if (!existing) {
+    return res.status(404).json({
+      error: 'Sub-event type not found',
+    });
+  }
+
+  if (name !== undefined && name !== existing.name) {
+    const [taken, inUse] = await Promise.all([
+      prisma.subEventType.findFirst({
+        where: { id: { not: subId }, eventTypeId: id, name: { equals: name, mode: 'insensitive' } },
+      }),
+      prisma.conflict.count({
+        where: { eventType: existing.eventType.name, subEventType: existing.name },
+      }),
+    ]);
+
+    if (taken) {
+      return res.status(409).json({
+        error: 'Sub-event type with this name already exists',
+      });
+    }
+
+    if (inUse > 0) {
+      return res.status(409).json({
+        error: `Sub-event type is used by ${inUse} conflicts and cannot be renamed`,
+      });
+    }
+  }
+
+  const subEventType = await prisma.subEventType.update({
+    where: { id: subId },
+    data: {
+      name,
+      ...(description !== undefined && { description: description || null }),
+    },
+  });
+
+  return res.json(subEventType);
+}));
+
+router.delete('/:id/sub-event-types/:subId', authenticateToken, requireRole(['ADMIN']), validateRequest(subEventTypeIdSchema), asyncHandler(async (req, res) => {
+  const { id, subId } = req.params;
+
+  const existing = await prisma.subEventType.findFirst({
+    where: { id: subId, eventTypeId: id },
+    include: { eventType: true },
+  });
+
+  if (!existing) {
+    return res.status(404).json({
+      error: 'Sub-event type not found',
+    });
+  }
+
+  const inUse = await prisma.conflict.count({
+    where: { eventType: existing.eventType.name, subEventType: existing.name },
+  });
+
+  if (inUse > 0) {
+    return res.status(409).json({
+      error: `Sub-event type is used by ${inUse} conflicts and cannot be deleted`,
+    });
+  }
+
+  await prisma.subEventType.delete({ where: { id: subId } });
+
+  return res.status(204).send();
+}));
+
+export default router;
@@ -0,0 +1,294 @@
+import express from 'express';
+import Joi from 'joi';
+import { rm } from 'fs/promises';
+import { existsSync } from 'fs';
+import { prisma } from '../utils/prisma';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validateRequest } from '../middleware/validation';
+import { conflictFilterSchema, polygonGeometry } from '../models/conflictFilterSchema';
+import { conflictExporters, EXPORT_FORMATS, ExportFormat } from '../services/conflictExport';
+import { exportFilePath, requestExportProcessing, toExportJobResponse } from '../services/exportJobs';
+
+const router = express.Router();
+
+// Queued or running jobs a user may have at once
+const MAX_ACTIVE_JOBS = 5;
+
+const exportJobCreateSchema = {
+  body: Joi.object({
+    format: Joi.string().valid(...EXPORT_FORMATS).required(),
+    filters: conflictFilterSchema.keys({
+      polygon: polygonGeometry,
+    }).default({}),
+    sortBy: Joi.string().valid('date', 'country', 'eventType').default('date'),
+    sortOrder: Joi.string().valid('asc', 'desc').default('desc'),
+  }),
+};
+
+const exportJobQuerySchema = {
+  query: Joi.object({
+    page: Joi.number().integer().min(1).default(1),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+  }),
+};
+
+const idSchema = {
+  params: Joi.object({
+    id: Joi.string().required(),
+  }),
+};
+
+/**
+ * @swagger
+ * /api/exports:
+ *   get:
+ *     summary: List the current user's export jobs, newest first
+ *     tags: [Exports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Export jobs
+ *   post:
+ *     summary: Queue an export job
+ *     description: >
+ *       For extracts too large to download through GET /api/conflicts/export in
+ *       one request. The job runs in the background; poll GET /api/exports/{id}
+ *       until its status is COMPLETED, then download the file. Files are deleted
+ *       EXPORT_RETENTION_HOURS after completion, and queued jobs survive a
+ *       restart of the backend.
+ *     tags: [Exports]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [format]
+ *             properties:
+ *               format:
+ *                 type: string
+ *                 enum: [json, csv, geojson, kml, gpkg, xlsx]
+ *               filters:
+ *                 type: object
+ *                 description: Filters of GET /api/conflicts, plus an optional GeoJSON polygon
+ *                 example:
+ *                   country: Sudan
+ *                   startDate: '2024-01-01'
+ *               sortBy:
+ *                 type: string
+ *                 enum: [date, country, eventType]
+ *                 default: date
+ *               sortOrder:
+ *                 type: string
+ *                 enum: [asc, desc]
+ *                 default: desc
+ *     responses:
+ *       202:
+ *         description: Export job queued
+ *       400:
+ *         description: Validation error
+ *       429:
+ *         description: Too many export jobs in progress
+ */
+router.get('/', authenticateToken, validateRequest(exportJobQuerySchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { page = 1, limit = 20 } = req.query;
+  const where = { userId: req.user!.userId };
+
+  const [jobs, total] = await Promise.all([
+    prisma.exportJob.findMany({
+      where,
+      skip: (Number(page) - 1) * Number(limit),
+      take: Number(limit),
+      orderBy: { createdAt: 'desc' },
+    }),
+    prisma.exportJob.count({ where }),
+  ]);
+
+  const totalPages = Math.ceil(total / Number(limit));
+
+  res.json({
+    jobs: jobs.map(toExportJobResponse),
+    pagination: {
+      page: Number(page),
+      limit: Number(limit),
+      total,
+      totalPages,
+      hasNext: Number(page) < totalPages,
+      hasPrev: Number(page) > 1,
+    },
+  });
+}));
+
+router.post('/', authenticateToken, validateRequest(exportJobCreateSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { format, filters = {}, sortBy = 'date', sortOrder = 'desc' } = req.body;
+  const userId = req.user!.userId;
+
+  const active = await prisma.exportJob.count({
+    where: { userId, status: { in: ['QUEUED', 'RUNNING'] } },
+  });
+  if (active >= MAX_ACTIVE_JOBS) {
+    return res.status(429).json({
+      error: `At most ${MAX_ACTIVE_JOBS} export jobs can be in progress at once`,
+    });
+  }
+
+  const job = await prisma.exportJob.create({
+    data: {
+      userId,
+      format,
+      filters: { ...filters, sortBy, sortOrder },
+    },
+  });
+
+  requestExportProcessing();
+
+  return res.status(202).json(toExportJobResponse(job));
+}));
+
+/**
+ * @swagger
+ * /api/exports/{id}:
+ *   get:
+ *     summary: Get an export job's status and progress
+ *     tags: [Exports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Export job with status (QUEUED, RUNNING, COMPLETED, FAILED, EXPIRED), progress percentage and, once completed, downloadUrl
+ *       404:
+ *         description: Export job not found
+ *   delete:
+ *     summary: Delete an export job and its file, cancelling it if still running
+ *     tags: [Exports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Export job deleted
+ *       404:
+ *         description: Export job not found
+ */
+router.get('/:id', authenticateToken, validateRequest(idSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const job = await prisma.exportJob.findFirst({
+    where: { id: req.params.id, userId: req.user!.userId },
+  });
+
+  if (!job) {
+    return res.status(404).json({
+      error: 'Export job not found',
+    });
+  }
+
+  return res.json(toExportJobResponse(job));
+}));
+
+router.delete('/:id', authenticateToken, validateRequest(idSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const job = await prisma.exportJob.findFirst({
+    where: { id: req.params.id, userId: req.user!.userId },
+  });
+
+  if (!job) {
+    return res.status(404).json({
+      error: 'Export job not found',
+    });
+  }
+
+  // A running job notices the deletion at its next progress update and removes its partial file
+  await prisma.exportJob.delete({ where: { id: job.id } });
+  if (job.status === 'COMPLETED') {
+    await rm(exportFilePath(job), { force: true });
+  }
+
+  return res.status(204).send();
+}));
+
+/**
+ * @swagger
+ * /api/exports/{id}/download:
+ *   get:
+ *     summary: Download a completed export
+ *     tags: [Exports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The exported file
+ *       404:
+ *         description: Export job not found
+ *       409:
+ *         description: Export not finished yet
+ *       410:
+ *         description: Export has expired
+ */
+router.get('/:id/download', authenticateToken, validateRequest(idSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const job = await prisma.exportJob.findFirst({
+    where: { id: req.params.id, userId: req.user!.userId },
+  });
+
+  if (!job) {
+    return res.status(404).json({
+      error: 'Export job not found',
+    });
+  }
+
+  if (job.status === 'EXPIRED') {
+    return res.status(410).json({
+      error: 'Export has expired',
+    });
+  }
+
+  if (job.status !== 'COMPLETED') {
+    return res.status(409).json({
+      error: job.status === 'FAILED' ? 'Export failed' : 'Export is not finished yet',
+      status: job.status,
+    });
+  }
+
+  const filePath = exportFilePath(job);
+  if (!existsSync(filePath)) {
+    return res.status(410).json({
+      error: 'Export file is no longer available',
+    });
+  }
+
+  return res.download(filePath, job.fileName!, {
+    headers: { 'Content-Type': conflictExporters[job.format as ExportFormat].contentType },
+  });
+}));
+
+export default router;
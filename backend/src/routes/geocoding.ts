@@ -0,0 +1,88 @@
+import express from 'express';
+import Joi from 'joi';
+import { authenticateToken, requireRole } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validateRequest } from '../middleware/validation';
+import { reverseGeocode, checkLocationConsistency } from '../services/geocoding';
+
+const router = express.Router();
+
+const reverseSchema = {
+  query: Joi.object({
+    latitude: Joi.number().min(-90).max(90).required(),
+    longitude: Joi.number().min(-180).max(180).required(),
+  }),
+};
+
+/**
+ * @swagger
+ * /api/geocoding/reverse:
+ *   get:
+ *     summary: Reverse geocode a point offline
+ *     description: >
+ *       Resolves the country (and admin units, when boundary files are installed)
+ *       containing a point using bundled boundary data; no external service is called.
+ *     tags: [Geocoding]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: latitude
+ *         required: true
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: longitude
+ *         required: true
+ *         schema:
+ *           type: number
+ *     responses:
+ *       200:
+ *         description: Country, subregion and admin units containing the point
+ *       404:
+ *         description: Point is not inside any country
+ */
+router.get('/reverse', authenticateToken, validateRequest(reverseSchema), asyncHandler(async (req, res) => {
+  const latitude = Number(req.query.latitude);
+  const longitude = Number(req.query.longitude);
+
+  const result = reverseGeocode(latitude, longitude);
+
+  if (!result) {
+    return res.status(404).json({
+      error: 'No country found at this location',
+    });
+  }
+
+  return res.json({
+    latitude,
+    longitude,
+    ...result,
+  });
+}));
+
+/**
+ * @swagger
+ * /api/geocoding/check:
+ *   post:
+ *     summary: Check every conflict's stated country against its coordinates (Admin only)
+ *     description: >
+ *       Sets locationMismatch on conflicts whose stated country does not contain
+ *       their point and clears it where it no longer applies. Flagged records can
+ *       be listed with GET /api/conflicts?locationMismatch=true.
+ *     tags: [Geocoding]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Number of conflicts checked, mismatches found and flags updated
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/check', authenticateToken, requireRole(['ADMIN']), asyncHandler(async (req, res) => {
+  const result = await checkLocationConsistency();
+
+  res.json(result);
+}));
+
+export default router;
@@ -0,0 +1,107 @@
+import express from 'express';
+import { GraphQLError } from 'graphql';
+import { createHandler } from 'graphql-http/lib/use/express';
+import depthLimit from 'graphql-depth-limit';
+import { createComplexityRule, fieldExtensionsEstimator, simpleEstimator } from 'graphql-query-complexity';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { AppError } from '../middleware/errorHandler';
+import { logger } from '../utils/logger';
+import { schema, GraphQLContext } from '../graphql/schema';
+import { createLoaders } from '../graphql/loaders';
+
+const router = express.Router();
+
+const MAX_DEPTH = Number(process.env.GRAPHQL_MAX_DEPTH || 8);
+const MAX_COMPLEXITY = Number(process.env.GRAPHQL_MAX_COMPLEXITY || 2000);
+
+// Resolver errors other than our own 400s are logged and hidden, as in errorHandler
+const formatError = (error: Readonly<GraphQLError | Error>) => {
+  if (!(error instanceof GraphQLError) || !error.originalError || error.originalError instanceof GraphQLError) {
+    return error;
+  }
+
+  if ((error.originalError as AppError).isOperational) {
+    return new GraphQLError(error.message, {
+      nodes: error.nodes,
+      path: error.path,
+      extensions: { code: 'BAD_USER_INPUT' },
+    });
+  }
+
+  logger.error({
+    error: error.originalError.message,
+    stack: error.originalError.stack,
+    path: error.path?.join('.'),
+  });
+
+  return new GraphQLError('Internal Server Error', {
+    nodes: error.nodes,
+    path: error.path,
+    extensions: { code: 'INTERNAL_SERVER_ERROR' },
+  });
+};
+
+const handler = createHandler<GraphQLContext>({
+  schema,
+  context: (req) => ({ user: (req.raw as AuthenticatedRequest).user!, loaders: createLoaders() }),
+  // Both limits are checked, after the standard validation, before anything executes
+  validationRules: (req, args, specifiedRules) => [
+    ...specifiedRules,
+    depthLimit(MAX_DEPTH),
+    createComplexityRule({
+      maximumComplexity: MAX_COMPLEXITY,
+      variables: args.variableValues ?? undefined,
+      operationName: args.operationName ?? undefined,
+      estimators: [fieldExtensionsEstimator(), simpleEstimator({ defaultComplexity: 1 })],
+      createError: (max, actual) => new GraphQLError(
+        `Query complexity ${actual} exceeds the maximum of ${max}; request fewer items or fewer nested lists`,
+        { extensions: { code: 'QUERY_TOO_COMPLEX' } }
+      ),
+    }),
+  ],
+  formatError,
+});
+
+/**
+ * @swagger
+ * /graphql:
+ *   post:
+ *     summary: Run a GraphQL query
+ *     description: >
+ *       GraphQL over the same data as the REST API, for nested reads in one
+ *       request, e.g. a country with its actors, conflicts and monthly trend.
+ *       Authenticated like the REST routes; admin-only fields fail with a
+ *       FORBIDDEN error. Queries deeper than GRAPHQL_MAX_DEPTH (8) or costing
+ *       more than GRAPHQL_MAX_COMPLEXITY (2000) are rejected before they run;
+ *       every list field takes a limit and costs that many times the cost of
+ *       each item, so lower nested limits to fit a query under the maximum.
+ *       The schema can be introspected.
+ *     tags: [GraphQL]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [query]
+ *             properties:
+ *               query:
+ *                 type: string
+ *                 example: '{ country(iso: "SDN") { name actors(limit: 5) { actor { name } events } trend(interval: MONTH) { periods series { events fatalities } } } }'
+ *               variables:
+ *                 type: object
+ *               operationName:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Query result, with any errors (FORBIDDEN, BAD_USER_INPUT, QUERY_TOO_COMPLEX) under errors
+ *       400:
+ *         description: Malformed request, or an invalid query when accepting application/graphql-response+json
+ *       401:
+ *         description: Access token is required
+ */
+router.all('/', authenticateToken, handler);
+
+export default router;
@@ -0,0 +1,119 @@
+import express from 'express';
+import Joi from 'joi';
+import { authenticateToken, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validateRequest } from '../middleware/validation';
+import { parseConflictCsv, importConflicts, ImportFormatError, ImportCandidate } from '../services/conflictImport';
+import { parseAcledCsv } from '../services/acledImport';
+
+const router = express.Router();
+
+const csvBody = express.text({
+  type: ['text/csv', 'text/plain', 'application/csv'],
+  limit: '10mb',
+});
+
+const importQuerySchema = {
+  query: Joi.object({
+    dryRun: Joi.boolean().default(false),
+  }),
+};
+
+const runImport = (parse: (text: string) => ImportCandidate[]) => asyncHandler(async (req: AuthenticatedRequest, res) => {
+  if (typeof req.body !== 'string' || req.body.trim() === '') {
+    return res.status(400).json({
+      error: 'CSV content is required (Content-Type: text/csv)',
+    });
+  }
+
+  const dryRun = String(req.query.dryRun) === 'true';
+
+  try {
+    const candidates = parse(req.body);
+    const report = await importConflicts(candidates, { dryRun, user: req.user });
+    return res.json(report);
+  } catch (error) {
+    if (error instanceof ImportFormatError) {
+      return res.status(400).json({
+        error: error.message,
+      });
+    }
+    throw error;
+  }
+});
+
+/**
+ * @swagger
+ * /api/imports/csv:
+ *   post:
+ *     summary: Import conflicts from CSV (Admin only)
+ *     description: >
+ *       Accepts the same columns written by /api/conflicts/export (ID, Title, Description,
+ *       Country, Region, Event Type, Sub Event Type, Date, Fatalities, Fatalities Min,
+ *       Fatalities Max, Latitude, Longitude, Source), plus the Date Precision, Location
+ *       Precision and External ID columns of the Excel export; other columns are ignored.
+ *       Rows whose ID matches an existing conflict are updated, all other valid rows are
+ *       inserted. Rows are written in batches, each in its own transaction; the rows of a
+ *       batch that fails are reported as rejected. Row numbers are lines of the file.
+ *     tags: [Imports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *         description: Report what would be inserted, updated or rejected without writing
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *     responses:
+ *       200:
+ *         description: Per-row import report
+ *       400:
+ *         description: Missing or malformed CSV
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/csv', authenticateToken, requireRole(['ADMIN']), csvBody, validateRequest(importQuerySchema), runImport(parseConflictCsv));
+
+/**
+ * @swagger
+ * /api/imports/acled:
+ *   post:
+ *     summary: Import an ACLED CSV export (Admin only)
+ *     description: >
+ *       Maps ACLED columns (event_id_cnty, event_date, event_type, sub_event_type,
+ *       country, admin1, fatalities, ...) onto conflicts. Events are matched on
+ *       event_id_cnty, so re-importing a newer download updates existing rows.
+ *       Columns without a dedicated field are kept in the conflict's attributes.
+ *       Rows are written in batches as for /api/imports/csv.
+ *     tags: [Imports]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *         description: Report what would be inserted, updated or rejected without writing
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *     responses:
+ *       200:
+ *         description: Per-row import report
+ *       400:
+ *         description: Missing or malformed CSV
+ *       403:
+ *         description: Insufficient permissions
+ */
+router.post('/acled', authenticateToken, requireRole(['ADMIN']), csvBody, validateRequest(importQuerySchema), runImport(parseAcledCsv));
+
+export default router;
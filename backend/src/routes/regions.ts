@@ -1,10 +1,58 @@
 import express from 'express';
+import Joi from 'joi';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../utils/prisma';
 import { authenticateToken } from '../middleware/auth';
 import { asyncHandler } from '../middleware/errorHandler';
+import { validateRequest } from '../middleware/validation';
+import { findCountry } from '../services/geography';
+import { countConflicts, fatalityRange } from '../services/conflictStats';
+import { textContains } from '../services/conflictFilters';
 
 const router = express.Router();
 
+const countryListSchema = {
+  query: Joi.object({
+    all: Joi.boolean().default(false),
+  }),
+};
+
+const countryParamsSchema = {
+  params: Joi.object({
+    iso: Joi.string().pattern(/^[A-Za-z]{2,3}$/).required(),
+  }),
+};
+
+const admin1ParamsSchema = {
+  params: countryParamsSchema.params.keys({
+    admin1Id: Joi.string().required(),
+  }),
+};
+
+const admin2ParamsSchema = {
+  params: admin1ParamsSchema.params.keys({
+    admin2Id: Joi.string().required(),
+  }),
+};
+
+const conflictTotals = async (where: Prisma.Sql) => {
+  const [totals, fatalities] = await Promise.all([
+    countConflicts(where),
+    fatalityRange(where),
+  ]);
+
+  return {
+    totalConflicts: totals.events,
+    totalFatalities: totals.fatalities,
+    fatalityRange: fatalities,
+  };
+};
+
+const withConflictCount = <T extends { _count: { conflicts: number } }>({ _count, ...unit }: T) => ({
+  ...unit,
+  conflictCount: _count.conflicts,
+});
+
 /**
  * @swagger
  * /api/regions:
@@ -42,6 +90,211 @@ router.get('/', authenticateToken, asyncHandler(async (req, res) => {
   });
 }));
 
+/**
+ * @swagger
+ * /api/regions/countries:
+ *   get:
+ *     summary: List reference countries with conflict counts
+ *     tags: [Regions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: all
+ *         schema:
+ *           type: boolean
+ *         description: Include countries without any conflicts
+ *     responses:
+ *       200:
+ *         description: List of countries with ISO codes
+ */
+router.get('/countries', authenticateToken, validateRequest(countryListSchema), asyncHandler(async (req, res) => {
+  const all = String(req.query.all) === 'true';
+
+  const countries = await prisma.country.findMany({
+    where: all ? {} : { conflicts: { some: {} } },
+    include: { _count: { select: { conflicts: true } } },
+    orderBy: { name: 'asc' },
+  });
+
+  res.json({
+    countries: countries.map(withConflictCount),
+  });
+}));
+
+/**
+ * @swagger
+ * /api/regions/countries/{iso}:
+ *   get:
+ *     summary: Get a country with its first-level administrative units
+ *     tags: [Regions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: iso
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: ISO 3166-1 alpha-2 or alpha-3 code
+ *     responses:
+ *       200:
+ *         description: Country, admin1 units with conflict counts and totals
+ *       404:
+ *         description: Country not found
+ */
+router.get('/countries/:iso', authenticateToken, validateRequest(countryParamsSchema), asyncHandler(async (req, res) => {
+  const country = await findCountry(prisma, req.params.iso);
+
+  if (!country) {
+    return res.status(404).json({
+      error: 'Country not found',
+    });
+  }
+
+  const [admin1s, stats] = await Promise.all([
+    prisma.admin1.findMany({
+      where: { countryId: country.id },
+      include: { _count: { select: { conflicts: true } } },
+      orderBy: { name: 'asc' },
+    }),
+    conflictTotals(Prisma.sql`c."countryId" = ${country.id}`),
+  ]);
+
+  return res.json({
+    country,
+    admin1: admin1s.map(withConflictCount),
+    stats,
+  });
+}));
+
+/**
+ * @swagger
+ * /api/regions/countries/{iso}/admin1/{admin1Id}:
+ *   get:
+ *     summary: Get a first-level administrative unit with its second-level units and locations
+ *     tags: [Regions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: iso
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: admin1Id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Admin1 unit, admin2 units and locations with conflict counts
+ *       404:
+ *         description: Administrative unit not found
+ */
+router.get('/countries/:iso/admin1/:admin1Id', authenticateToken, validateRequest(admin1ParamsSchema), asyncHandler(async (req, res) => {
+  const country = await findCountry(prisma, req.params.iso);
+  const admin1 = country && await prisma.admin1.findFirst({
+    where: { id: req.params.admin1Id, countryId: country.id },
+  });
+
+  if (!country || !admin1) {
+    return res.status(404).json({
+      error: 'Administrative unit not found',
+    });
+  }
+
+  const [admin2s, locations, stats] = await Promise.all([
+    prisma.admin2.findMany({
+      where: { admin1Id: admin1.id },
+      include: { _count: { select: { conflicts: true } } },
+      orderBy: { name: 'asc' },
+    }),
+    prisma.location.findMany({
+      where: { admin1Id: admin1.id, admin2Id: null },
+      include: { _count: { select: { conflicts: true } } },
+      orderBy: { name: 'asc' },
+    }),
+    conflictTotals(Prisma.sql`c."admin1Id" = ${admin1.id}`),
+  ]);
+
+  return res.json({
+    country,
+    admin1,
+    admin2: admin2s.map(withConflictCount),
+    locations: locations.map(withConflictCount),
+    stats,
+  });
+}));
+
+/**
+ * @swagger
+ * /api/regions/countries/{iso}/admin1/{admin1Id}/admin2/{admin2Id}:
+ *   get:
+ *     summary: Get a second-level administrative unit with its locations
+ *     tags: [Regions]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: iso
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: admin1Id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: admin2Id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Admin2 unit and locations with conflict counts
+ *       404:
+ *         description: Administrative unit not found
+ */
+router.get('/countries/:iso/admin1/:admin1Id/admin2/:admin2Id', authenticateToken, validateRequest(admin2ParamsSchema), asyncHandler(async (req, res) => {
+  const country = await findCountry(prisma, req.params.iso);
+  const admin2 = country && await prisma.admin2.findFirst({
+    where: {
+      id: req.params.admin2Id,
+      admin1Id: req.params.admin1Id,
+      admin1: { countryId: country.id },
+    },
+    include: { admin1: true },
+  });
+
+  if (!country || !admin2) {
+    return res.status(404).json({
+      error: 'Administrative unit not found',
+    });
+  }
+
+  const [locations, stats] = await Promise.all([
+    prisma.location.findMany({
+      where: { admin2Id: admin2.id },
+      include: { _count: { select: { conflicts: true } } },
+      orderBy: { name: 'asc' },
+    }),
+    conflictTotals(Prisma.sql`c."admin2Id" = ${admin2.id}`),
+  ]);
+
+  const { admin1, ...unit } = admin2;
+
+  return res.json({
+    country,
+    admin1,
+    admin2: unit,
+    locations: locations.map(withConflictCount),
+    stats,
+  });
+}));
+
 /**
  * @swagger
  * /api/regions/{region}/conflicts:
@@ -63,27 +316,27 @@ router.get('/', authenticateToken, asyncHandler(async (req, res) => {
 router.get('/:region/conflicts', authenticateToken, asyncHandler(async (req, res) => {
   const { region } = req.params;
 
+  const regionWhere: Prisma.ConflictWhereInput = {
+    region: {
+      contains: region,
+      mode: 'insensitive'
+    }
+  };
+
   const conflicts = await prisma.conflict.findMany({
-    where: {
-      region: {
-        contains: region,
-        mode: 'insensitive'
-      }
-    },
+    where: regionWhere,
     orderBy: { date: 'desc' }
   });
 
-  const stats = await prisma.conflict.aggregate({
-    where: {
-      region: {
-        contains: region,
-        mode: 'insensitive'
-      }
-    },
-    _count: true,
-    _sum: { fatalities: true },
-    _avg: { fatalities: true }
-  });
+  const [stats, fatalities] = await Promise.all([
+    prisma.conflict.aggregate({
+      where: regionWhere,
+      _count: true,
+      _sum: { fatalities: true },
+      _avg: { fatalities: true }
+    }),
+    fatalityRange(textContains('region', region))
+  ]);
 
   res.json({
     region,
@@ -91,7 +344,8 @@ router.get('/:region/conflicts', authenticateToken, asyncHandler(async (req, res
     stats: {
       totalConflicts: stats._count,
       totalFatalities: stats._sum.fatalities || 0,
-      averageFatalities: Math.round(stats._avg.fatalities || 0)
+      averageFatalities: Math.round(stats._avg.fatalities || 0),
+      fatalityRange: fatalities
     }
   });
 }));
@@ -0,0 +1,90 @@
+import express from 'express';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import { prisma } from '../utils/prisma';
+import savedSearchesRouter from './savedSearches';
+
+jest.mock('../utils/prisma', () => ({
+  prisma: {
+    user: { findMany: jest.fn() },
+    savedSearch: { findFirst: jest.fn(), create: jest.fn() },
+    savedSearchShare: { createMany: jest.fn() },
+  },
+}));
+
+jest.mock('../utils/jwt', () => ({
+  verifyToken: () => ({ userId: 'owner', email: 'owner@example.com', role: 'USER' }),
+}));
+
+const mocked = prisma as unknown as {
+  user: { findMany: jest.Mock };
+  savedSearch: { findFirst: jest.Mock; create: jest.Mock };
+  savedSearchShare: { createMany: jest.Mock };
+};
+
+describe('saved search sharing', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/saved-searches', savedSearchesRouter);
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/saved-searches`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    // Only registered@example.com has an account
+    mocked.user.findMany.mockImplementation(async ({ where }) =>
+      where.email.in.includes('registered@example.com') ? [{ id: 'recipient' }] : []
+    );
+    mocked.savedSearch.findFirst.mockResolvedValue({ id: 'search', userId: 'owner' });
+    mocked.savedSearch.create.mockImplementation(async ({ data: { shares, ...data } }) => ({
+      id: 'search',
+      ...data,
+      description: null,
+      isPublic: false,
+      createdAt: new Date('2024-01-01T00:00:00Z'),
+      updatedAt: new Date('2024-01-01T00:00:00Z'),
+      user: { id: data.userId },
+    }));
+    mocked.savedSearchShare.createMany.mockImplementation(async ({ data }) => ({ count: data.length }));
+  });
+
+  const request = async (path: string, body: unknown) => {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer token', 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    return { status: res.status, body: await res.text() };
+  };
+
+  it('answers a share the same whether or not the recipient is registered', async () => {
+    const registered = await request('/search/shares', { email: 'registered@example.com' });
+    const unknown = await request('/search/shares', { email: 'unknown@example.com' });
+
+    expect(registered).toEqual(unknown);
+    expect(registered.status).toBe(204);
+    expect(mocked.savedSearchShare.createMany).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      data: [{ savedSearchId: 'search', userId: 'recipient' }],
+    }));
+    expect(mocked.savedSearchShare.createMany).toHaveBeenNthCalledWith(2, expect.objectContaining({ data: [] }));
+  });
+
+  it('answers a create the same whether or not the recipients are registered', async () => {
+    const search = { name: 'Sudan battles', query: { country: 'Sudan' } };
+    const registered = await request('', { ...search, shareWith: ['registered@example.com'] });
+    const unknown = await request('', { ...search, shareWith: ['unknown@example.com'] });
+
+    expect(registered).toEqual(unknown);
+    expect(registered.status).toBe(201);
+    expect(registered.body).not.toContain('@example.com');
+  });
+});
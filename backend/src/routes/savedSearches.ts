@@ -0,0 +1,528 @@
+import express from 'express';
+import Joi from 'joi';
+import { SavedSearch } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { asyncHandler } from '../middleware/errorHandler';
+import { validateRequest } from '../middleware/validation';
+import { conflictFilterSchema, conflictListFields, polygonGeometry } from '../models/conflictFilterSchema';
+import { listConflicts, CursorError } from '../services/conflictList';
+
+const router = express.Router();
+
+// The parameters of POST /api/conflicts/search, minus the page or cursor, which are chosen when running
+const savedQuerySchema = conflictFilterSchema.keys({
+  limit: conflictListFields.limit,
+  fields: conflictListFields.fields,
+  sortBy: conflictListFields.sortBy,
+  sortOrder: conflictListFields.sortOrder,
+  polygon: polygonGeometry,
+});
+
+const savedSearchFields = {
+  name: Joi.string().trim().max(200),
+  description: Joi.string().trim().max(2000).allow(null, ''),
+  query: savedQuerySchema,
+  isPublic: Joi.boolean(),
+};
+
+const idSchema = {
+  params: Joi.object({
+    id: Joi.string().required(),
+  }),
+};
+
+const savedSearchCreateSchema = {
+  body: Joi.object({
+    ...savedSearchFields,
+    name: savedSearchFields.name.required(),
+    query: savedSearchFields.query.required(),
+    shareWith: Joi.array().items(Joi.string().email()).unique().optional(),
+  }),
+};
+
+const savedSearchUpdateSchema = {
+  params: idSchema.params,
+  body: Joi.object(savedSearchFields).min(1),
+};
+
+const savedSearchRunSchema = {
+  params: idSchema.params,
+  query: Joi.object({
+    page: conflictListFields.page,
+    cursor: conflictListFields.cursor,
+    limit: conflictListFields.limit,
+    sortBy: Joi.string().valid('date', 'fatalities', 'country', 'eventType', 'relevance').optional(),
+    sortOrder: conflictListFields.sortOrder.optional(),
+  }),
+};
+
+const shareSchema = {
+  params: idSchema.params,
+  body: Joi.object({
+    email: Joi.string().email().required(),
+  }),
+};
+
+const unshareSchema = {
+  params: Joi.object({
+    id: Joi.string().required(),
+    userId: Joi.string().required(),
+  }),
+};
+
+// Owners and recipients are identified by id only, so no response reveals anyone's email
+const savedSearchInclude = {
+  user: { select: { id: true } },
+  shares: { select: { userId: true, createdAt: true } },
+};
+
+// Searches the user owns, has been given, or that are public
+const visibleTo = (userId: string) => ({
+  OR: [
+    { userId },
+    { isPublic: true },
+    { shares: { some: { userId } } },
+  ],
+});
+
+const findVisibleSearch = (id: string, userId: string) =>
+  prisma.savedSearch.findFirst({
+    where: { id, ...visibleTo(userId) },
+    include: savedSearchInclude,
+  });
+
+type SavedSearchWithShares = SavedSearch & {
+  user: { id: string };
+  shares?: Array<{ userId: string; createdAt: Date }>;
+};
+
+/**
+ * Shape a saved search for the response. Only the owner sees who it is shared
+ * with, and only when the shares were loaded.
+ */
+const toSavedSearch = (search: SavedSearchWithShares, userId: string) => {
+  const { user, shares, ...fields } = search;
+  const isOwner = search.userId === userId;
+
+  return {
+    ...fields,
+    owner: user,
+    isOwner,
+    ...(isOwner && shares && {
+      sharedWith: shares.map((share) => ({ userId: share.userId, sharedAt: share.createdAt })),
+    }),
+  };
+};
+
+/**
+ * Resolve share recipients by email. Emails that match no account are skipped
+ * without notice, so sharing cannot be used to find out who is registered.
+ */
+const resolveRecipients = async (emails: string[], ownerId: string) => {
+  const users = await prisma.user.findMany({
+    where: { email: { in: emails }, id: { not: ownerId } },
+    select: { id: true },
+  });
+
+  return users.map((user) => user.id);
+};
+
+/**
+ * @swagger
+ * /api/saved-searches:
+ *   get:
+ *     summary: List saved searches visible to the current user
+ *     description: >
+ *       The user's own searches, those shared with them and public ones. The
+ *       owner is given by id only; sharedWith (recipient ids) is listed to the
+ *       owner alone.
+ *     tags: [Saved Searches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: scope
+ *         schema:
+ *           type: string
+ *           enum: [all, own, shared, public]
+ *           default: all
+ *     responses:
+ *       200:
+ *         description: Saved searches
+ *   post:
+ *     summary: Save a conflict search
+ *     description: >
+ *       The query holds the parameters of POST /api/conflicts/search (filters,
+ *       polygon, limit, sortBy, sortOrder) and is validated the same way.
+ *     tags: [Saved Searches]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, query]
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               query:
+ *                 type: object
+ *                 example:
+ *                   country: Sudan
+ *                   eventType: Battles
+ *                   sortBy: fatalities
+ *               isPublic:
+ *                 type: boolean
+ *                 default: false
+ *               shareWith:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: >
+ *                   Emails of users to share the search with. Emails with no
+ *                   account are skipped, and the response does not list the
+ *                   recipients, so it is the same whether or not they exist.
+ *     responses:
+ *       201:
+ *         description: Saved search created
+ *       400:
+ *         description: Validation error
+ */
+router.get('/', authenticateToken, validateRequest({
+  query: Joi.object({
+    scope: Joi.string().valid('all', 'own', 'shared', 'public').default('all'),
+  }),
+}), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { scope = 'all' } = req.query;
+  const userId = req.user!.userId;
+
+  const where = {
+    all: visibleTo(userId),
+    own: { userId },
+    shared: { shares: { some: { userId } } },
+    public: { isPublic: true },
+  }[String(scope) as 'all' | 'own' | 'shared' | 'public'];
+
+  const searches = await prisma.savedSearch.findMany({
+    where,
+    orderBy: { updatedAt: 'desc' },
+    include: savedSearchInclude,
+  });
+
+  res.json({
+    savedSearches: searches.map((search) => toSavedSearch(search, userId)),
+  });
+}));
+
+router.post('/', authenticateToken, validateRequest(savedSearchCreateSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { shareWith = [], ...fields } = req.body;
+  const userId = req.user!.userId;
+
+  const userIds = await resolveRecipients(shareWith, userId);
+
+  const search = await prisma.savedSearch.create({
+    data: {
+      ...fields,
+      userId,
+      shares: {
+        create: userIds.map((id) => ({ userId: id })),
+      },
+    },
+    include: { user: savedSearchInclude.user },
+  });
+
+  return res.status(201).json(toSavedSearch(search, userId));
+}));
+
+/**
+ * @swagger
+ * /api/saved-searches/{id}:
+ *   get:
+ *     summary: Get a saved search
+ *     tags: [Saved Searches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Saved search
+ *       404:
+ *         description: Saved search not found
+ *   patch:
+ *     summary: Update a saved search (owner only)
+ *     tags: [Saved Searches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Saved search updated
+ *       404:
+ *         description: Saved search not found
+ *   delete:
+ *     summary: Delete a saved search (owner only)
+ *     tags: [Saved Searches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Saved search deleted
+ *       404:
+ *         description: Saved search not found
+ */
+router.get('/:id', authenticateToken, validateRequest(idSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const search = await findVisibleSearch(req.params.id, req.user!.userId);
+
+  if (!search) {
+    return res.status(404).json({
+      error: 'Saved search not found',
+    });
+  }
+
+  return res.json(toSavedSearch(search, req.user!.userId));
+}));
+
+router.patch('/:id', authenticateToken, validateRequest(savedSearchUpdateSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.userId;
+  const existing = await prisma.savedSearch.findFirst({
+    where: { id: req.params.id, userId },
+  });
+
+  if (!existing) {
+    return res.status(404).json({
+      error: 'Saved search not found',
+    });
+  }
+
+  const search = await prisma.savedSearch.update({
+    where: { id: existing.id },
+    data: req.body,
+    include: savedSearchInclude,
+  });
+
+  return res.json(toSavedSearch(search, userId));
+}));
+
+router.delete('/:id', authenticateToken, validateRequest(idSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const { count } = await prisma.savedSearch.deleteMany({
+    where: { id: req.params.id, userId: req.user!.userId },
+  });
+
+  if (count === 0) {
+    return res.status(404).json({
+      error: 'Saved search not found',
+    });
+  }
+
+  return res.status(204).send();
+}));
+
+/**
+ * @swagger
+ * /api/saved-searches/{id}/run:
+ *   get:
+ *     summary: Run a saved search
+ *     description: >
+ *       Returns the same response as GET /api/conflicts for the stored query,
+ *       evaluated against the current data. page (or cursor), limit, sortBy and
+ *       sortOrder override the stored values.
+ *     tags: [Saved Searches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: nextCursor of the previous response
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 1000
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [date, fatalities, country, eventType, relevance]
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [asc, desc]
+ *     responses:
+ *       200:
+ *         description: Paginated conflicts matching the saved search
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Saved search not found
+ */
+router.get('/:id/run', authenticateToken, validateRequest(savedSearchRunSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const search = await findVisibleSearch(req.params.id, req.user!.userId);
+
+  if (!search) {
+    return res.status(404).json({
+      error: 'Saved search not found',
+    });
+  }
+
+  const { polygon, ...stored } = search.query as Record<string, any>;
+  const params = { ...stored, ...req.query };
+
+  if (params.sortBy === 'relevance' && !params.q) {
+    return res.status(400).json({
+      error: 'Validation failed',
+      details: ['Query: "sortBy" relevance requires a saved search with "q"'],
+    });
+  }
+
+  try {
+    return res.json(await listConflicts(params, polygon));
+  } catch (error) {
+    if (error instanceof CursorError) {
+      return res.status(400).json({
+        error: error.message,
+      });
+    }
+    throw error;
+  }
+}));
+
+/**
+ * @swagger
+ * /api/saved-searches/{id}/shares:
+ *   post:
+ *     summary: Share a saved search with another user (owner only)
+ *     description: >
+ *       An email with no account is skipped, and the response is the same
+ *       either way, so sharing does not reveal who is registered.
+ *     tags: [Saved Searches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email]
+ *             properties:
+ *               email:
+ *                 type: string
+ *     responses:
+ *       204:
+ *         description: Share recorded, if the email belongs to a user
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Saved search not found
+ */
+router.post('/:id/shares', authenticateToken, validateRequest(shareSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const userId = req.user!.userId;
+  const existing = await prisma.savedSearch.findFirst({
+    where: { id: req.params.id, userId },
+  });
+
+  if (!existing) {
+    return res.status(404).json({
+      error: 'Saved search not found',
+    });
+  }
+
+  const userIds = await resolveRecipients([req.body.email], userId);
+
+  await prisma.savedSearchShare.createMany({
+    data: userIds.map((id) => ({ savedSearchId: existing.id, userId: id })),
+    skipDuplicates: true,
+  });
+
+  return res.status(204).send();
+}));
+
+/**
+ * @swagger
+ * /api/saved-searches/{id}/shares/{userId}:
+ *   delete:
+ *     summary: Stop sharing a saved search with a user
+ *     description: The owner can remove anyone; a recipient can remove themselves.
+ *     tags: [Saved Searches]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: userId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Share removed
+ *       404:
+ *         description: Saved search or share not found
+ */
+router.delete('/:id/shares/:userId', authenticateToken, validateRequest(unshareSchema), asyncHandler(async (req: AuthenticatedRequest, res) => {
+  const currentUserId = req.user!.userId;
+  const { id, userId } = req.params;
+
+  const { count } = await prisma.savedSearchShare.deleteMany({
+    where: {
+      savedSearchId: id,
+      userId,
+      ...(userId !== currentUserId && { savedSearch: { userId: currentUserId } }),
+    },
+  });
+
+  if (count === 0) {
+    return res.status(404).json({
+      error: 'Share not found',
+    });
+  }
+
+  return res.status(204).send();
+}));
+
+export default router;
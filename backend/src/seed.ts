@@ -1,5 +1,7 @@
 import { PrismaClient } from '@prisma/client';
 import bcrypt from 'bcryptjs';
+import { seedCountries, backfillCountryLinks } from './services/geography';
+import { seedEventTypes } from './services/eventTypes';
 
 const prisma = new PrismaClient();
 
@@ -85,7 +87,7 @@ const sampleConflicts = [
     longitude: 44.1910,
     date: new Date('2023-09-05'),
     fatalities: 15,
-    eventType: 'Remote violence',
+    eventType: 'Explosions/Remote violence',
     source: 'ACLED'
   },
   {
@@ -109,7 +111,7 @@ const sampleConflicts = [
     longitude: 13.1913,
     date: new Date('2023-11-28'),
     fatalities: 19,
-    eventType: 'Remote violence',
+    eventType: 'Explosions/Remote violence',
     source: 'ACLED'
   },
   {
@@ -225,6 +227,17 @@ async function main() {
 
   console.log(`Created ${conflicts.count} conflicts`);
 
+  // Load the country reference table and link the sample conflicts to it
+  const countryCount = await seedCountries(prisma);
+  const linked = await backfillCountryLinks(prisma);
+
+  console.log(`Loaded ${countryCount} countries, linked ${linked} conflicts`);
+
+  // Load the ACLED event type taxonomy that conflict writes are validated against
+  const eventTypeCount = await seedEventTypes(prisma);
+
+  console.log(`Loaded ${eventTypeCount} event types`);
+
   // Get some stats
   const totalConflicts = await prisma.conflict.count();
   const totalFatalities = await prisma.conflict.aggregate({
@@ -0,0 +1,164 @@
+import { parseCsvRecords } from '../utils/csv';
+import { ImportCandidate, ImportFormatError } from './conflictImport';
+import { ActorLinkInput } from './actors';
+
+// ACLED columns that map directly onto Conflict fields
+const ACLED_FIELD_MAP: Record<string, string> = {
+  event_id_cnty: 'externalId',
+  event_date: 'date',
+  event_type: 'eventType',
+  sub_event_type: 'subEventType',
+  country: 'country',
+  region: 'region',
+  latitude: 'latitude',
+  longitude: 'longitude',
+  fatalities: 'fatalities',
+  time_precision: 'datePrecision',
+  geo_precision: 'locationPrecision',
+  notes: 'description',
+};
+
+// Place names resolved against the geography reference tables
+const ACLED_PLACE_COLUMNS = ['admin1', 'admin2', 'location'];
+
+const REQUIRED_ACLED_COLUMNS = ['event_id_cnty', 'event_date', 'event_type', 'country', 'latitude', 'longitude'];
+
+// ACLED inter1/inter2 codes describing the kind of actor
+const ACLED_ACTOR_TYPES: Record<string, string> = {
+  '1': 'State forces',
+  '2': 'Rebel group',
+  '3': 'Political militia',
+  '4': 'Identity militia',
+  '5': 'Rioters',
+  '6': 'Protesters',
+  '7': 'Civilians',
+  '8': 'External/Other forces',
+};
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+/**
+ * ACLED exports use either ISO dates or the "15 March 2023" style depending on
+ * where the file was downloaded. Both are read as calendar dates in UTC.
+ */
+export const parseAcledDate = (value: string): string | undefined => {
+  const trimmed = value.trim();
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) return trimmed;
+
+  const match = /^(\d{1,2})\s+([A-Za-z]+)\s+(\d{4})$/.exec(trimmed);
+  if (!match) return undefined;
+
+  const month = MONTHS.findIndex((m) => m.startsWith(match[2]!.toLowerCase()));
+  if (month === -1) return undefined;
+
+  return new Date(Date.UTC(Number(match[3]), month, Number(match[1]))).toISOString().split('T')[0];
+};
+
+// actor1 initiated the event and actor2 was on the receiving end, when present
+const buildActors = (row: Record<string, string>): ActorLinkInput[] => {
+  const interaction = row.interaction || undefined;
+  const actors: ActorLinkInput[] = [];
+
+  if (row.actor1) {
+    actors.push({
+      name: row.actor1,
+      role: 'AGGRESSOR',
+      type: ACLED_ACTOR_TYPES[row.inter1 ?? ''] || row.inter1 || undefined,
+      interaction,
+    });
+  }
+
+  if (row.actor2) {
+    actors.push({
+      name: row.actor2,
+      role: 'TARGET',
+      type: ACLED_ACTOR_TYPES[row.inter2 ?? ''] || row.inter2 || undefined,
+      interaction,
+    });
+  }
+
+  return actors;
+};
+
+// ACLED has no headline field, so build one from the event classification and place
+const buildTitle = (row: Record<string, string>) => {
+  const what = row.sub_event_type || row.event_type || 'Event';
+  const where = [row.location, row.admin1, row.country].filter(Boolean).join(', ');
+  return where ? `${what} in ${where}` : what;
+};
+
+/**
+ * Map an ACLED CSV export onto import candidates. actor1 and actor2 become
+ * actor links and admin1/admin2/location are linked into the geography
+ * hierarchy; other columns without a Conflict field (admin3, ACLED's own
+ * source notes, ...) are kept in `attributes` so nothing in the original file
+ * is lost.
+ */
+export const parseAcledCsv = (text: string): ImportCandidate[] => {
+  const [headerRecord, ...records] = parseCsvRecords(text);
+  const header = headerRecord?.fields;
+
+  if (!header) {
+    throw new ImportFormatError('ACLED file is empty');
+  }
+
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const missing = REQUIRED_ACLED_COLUMNS.filter((column) => !columns.includes(column));
+
+  if (missing.length > 0) {
+    throw new ImportFormatError(`ACLED file is missing required columns: ${missing.join(', ')}`);
+  }
+
+  return records.map(({ line, fields: record }) => {
+    const row: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      row[column] = (record[i] ?? '').trim();
+    });
+
+    const values: Record<string, any> = {
+      source: 'ACLED',
+      title: buildTitle(row),
+      region: row.region || row.country,
+    };
+    const attributes: Record<string, string> = {};
+    const errors: string[] = [];
+
+    for (const [column, raw] of Object.entries(row)) {
+      const field = ACLED_FIELD_MAP[column];
+
+      if (ACLED_PLACE_COLUMNS.includes(column)) continue;
+
+      if (!field) {
+        if (raw !== '') attributes[column] = raw;
+        continue;
+      }
+
+      if (field === 'date') {
+        const date = parseAcledDate(raw);
+        if (date) {
+          values.date = date;
+        } else {
+          errors.push(`Unrecognised event_date "${raw}"`);
+        }
+      } else if (raw !== '') {
+        values[field] = raw;
+      } else if (field === 'fatalities' || field === 'description') {
+        values[field] = null;
+      }
+    }
+
+    values.attributes = Object.keys(attributes).length > 0 ? attributes : null;
+
+    const places = {
+      admin1: row.admin1 || null,
+      admin2: row.admin2 || null,
+      location: row.location || null,
+    };
+
+    return { row: line, values, actors: buildActors(row), places, errors };
+  });
+};
@@ -0,0 +1,128 @@
+import { Prisma, Actor, ActorRole } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+
+type Tx = Prisma.TransactionClient;
+
+export interface ActorLinkInput {
+  name: string;
+  role: ActorRole;
+  type?: string;
+  interaction?: string;
+}
+
+/**
+ * Turn actor links given by name into links by actor ID, creating actors as
+ * needed, for writing with the conflict (so its revision records them). Used
+ * by importers, where actors arrive as names rather than IDs. A repeated
+ * actor and role is linked once, with the last interaction given.
+ */
+export const resolveActorLinks = async (tx: Tx, links: ActorLinkInput[]) => {
+  const resolved = new Map<string, { actorId: string; role: ActorRole; interaction?: string }>();
+
+  for (const link of links) {
+    const actor = await tx.actor.upsert({
+      where: { name: link.name },
+      create: { name: link.name, type: link.type },
+      update: {},
+    });
+
+    resolved.set(`${actor.id}:${link.role}`, { actorId: actor.id, role: link.role, interaction: link.interaction });
+  }
+
+  return [...resolved.values()];
+};
+
+/**
+ * The number of conflicts each actor took part in, counting a conflict once
+ * even if the actor holds several roles in it. Actors without any are absent.
+ */
+export const countActorEvents = async (actorIds: string[]) => {
+  if (actorIds.length === 0) return new Map<string, number>();
+
+  const rows = await prisma.$queryRaw<Array<{ actorId: string; events: number }>>`
+    SELECT ca."actorId", COUNT(DISTINCT ca."conflictId")::int AS events
+    FROM conflict_actors ca
+    WHERE ca."actorId" IN (${Prisma.join(actorIds)})
+    GROUP BY 1
+  `;
+
+  return new Map(rows.map((row) => [row.actorId, row.events]));
+};
+
+export interface ActivityPoint {
+  period: string;
+  events: number;
+  fatalities: number;
+}
+
+/**
+ * Event counts and fatalities per month for the conflicts each actor took
+ * part in. Each conflict is counted once even if the actor holds several
+ * roles in it. Actors without any conflicts get an empty list.
+ */
+export const getActorsActivity = async (actorIds: string[]) => {
+  const activity = new Map<string, ActivityPoint[]>(actorIds.map((id) => [id, []]));
+  if (actorIds.length === 0) return activity;
+
+  const rows = await prisma.$queryRaw<Array<{ actorId: string; period: Date; events: number; fatalities: number }>>`
+    SELECT a."actorId",
+           date_trunc('month', c."date") AS period,
+           COUNT(*)::int AS events,
+           COALESCE(SUM(c."fatalities"), 0)::int AS fatalities
+    FROM (SELECT DISTINCT ca."actorId", ca."conflictId" FROM conflict_actors ca
+          WHERE ca."actorId" IN (${Prisma.join(actorIds)})) a
+    JOIN conflicts c ON c."id" = a."conflictId"
+    GROUP BY 1, 2
+    ORDER BY 1, 2
+  `;
+
+  for (const row of rows) {
+    activity.get(row.actorId)?.push({
+      period: row.period.toISOString().slice(0, 7),
+      events: row.events,
+      fatalities: row.fatalities,
+    });
+  }
+
+  return activity;
+};
+
+export const getActorActivity = async (actorId: string) =>
+  (await getActorsActivity([actorId])).get(actorId)!;
+
+/**
+ * The actors involved in the most conflicts in each country, at most `limit`
+ * per country, with their event counts there. Each conflict is counted once
+ * per actor, whatever its roles.
+ */
+export const getCountriesActors = async (countryIds: string[], limit: number) => {
+  const byCountry = new Map<string, Array<{ actor: Actor; events: number }>>(countryIds.map((id) => [id, []]));
+  if (countryIds.length === 0) return byCountry;
+
+  const rows = await prisma.$queryRaw<Array<{ countryId: string; actorId: string; events: number }>>`
+    SELECT ranked."countryId", ranked."actorId", ranked.events
+    FROM (
+      SELECT c."countryId", ca."actorId", COUNT(DISTINCT ca."conflictId")::int AS events,
+             ROW_NUMBER() OVER (
+               PARTITION BY c."countryId" ORDER BY COUNT(DISTINCT ca."conflictId") DESC, ca."actorId"
+             ) AS rank
+      FROM conflict_actors ca
+      JOIN conflicts c ON c."id" = ca."conflictId"
+      WHERE c."countryId" IN (${Prisma.join(countryIds)})
+      GROUP BY 1, 2
+    ) ranked
+    WHERE ranked.rank <= ${limit}
+    ORDER BY ranked."countryId", ranked.rank
+  `;
+
+  const actors = await prisma.actor.findMany({
+    where: { id: { in: [...new Set(rows.map((row) => row.actorId))] } },
+  });
+  const actorsById = new Map(actors.map((actor) => [actor.id, actor]));
+
+  for (const row of rows) {
+    byCountry.get(row.countryId)?.push({ actor: actorsById.get(row.actorId)!, events: row.events });
+  }
+
+  return byCountry;
+};
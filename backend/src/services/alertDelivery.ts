@@ -0,0 +1,140 @@
+import http from 'http';
+import https from 'https';
+import { isIP } from 'net';
+import nodemailer from 'nodemailer';
+import { Alert, AlertChannel, AlertRule } from '@prisma/client';
+import { logger } from '../utils/logger';
+import { assertPublicHost, publicLookup } from '../utils/network';
+
+export interface AlertDelivery {
+  deliver(alert: Alert, rule: AlertRule, recipient: { email: string }): Promise<void>;
+}
+
+export interface DeliveryResult {
+  channel: AlertChannel;
+  status: 'sent' | 'failed';
+  error?: string;
+}
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// In-app alerts are the stored Alert rows themselves, listed by GET /api/alerts
+const inAppDelivery: AlertDelivery = {
+  deliver: async () => undefined,
+};
+
+let mailTransport: nodemailer.Transporter | null = null;
+
+// Plain SMTP to a local relay or catcher such as MailHog; no auth or TLS by default
+const getMailTransport = () => {
+  if (!mailTransport) {
+    mailTransport = nodemailer.createTransport({
+      host: process.env.SMTP_HOST || 'localhost',
+      port: Number(process.env.SMTP_PORT || 1025),
+      secure: false,
+      ignoreTLS: !process.env.SMTP_USER,
+      ...(process.env.SMTP_USER && {
+        auth: { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD },
+      }),
+    });
+  }
+
+  return mailTransport;
+};
+
+// Only ever the account's own address, so rules cannot be used to mail third parties
+const emailDelivery: AlertDelivery = {
+  deliver: async (alert, rule, recipient) => {
+    await getMailTransport().sendMail({
+      from: process.env.ALERT_EMAIL_FROM || 'alerts@conflict-data.local',
+      to: recipient.email,
+      subject: `Conflict alert: ${rule.name}`,
+      text: `${alert.message}\n\n${JSON.stringify(alert.details, null, 2)}`,
+    });
+  },
+};
+
+/*
+ * POST JSON to a webhook, resolving with the response status. Connections to
+ * private and reserved addresses are refused (see utils/network), and
+ * redirects are not followed, so a rule cannot reach internal services.
+ */
+const postWebhook = async (url: string, body: unknown) => {
+  const target = new URL(url);
+  if (isIP(target.hostname.replace(/^\[(.*)\]$/, '$1'))) {
+    await assertPublicHost(target.hostname);
+  }
+
+  return new Promise<number>((resolve, reject) => {
+    const request = (target.protocol === 'https:' ? https : http).request(target, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      lookup: publicLookup,
+      timeout: WEBHOOK_TIMEOUT_MS,
+    }, (response) => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+
+    request.on('timeout', () => request.destroy(new Error('Webhook timed out')));
+    request.on('error', reject);
+    request.end(JSON.stringify(body));
+  });
+};
+
+const webhookDelivery: AlertDelivery = {
+  deliver: async (alert, rule) => {
+    if (!rule.webhookUrl) {
+      throw new Error('Rule has no webhook URL');
+    }
+
+    const status = await postWebhook(rule.webhookUrl, {
+      alert: {
+        id: alert.id,
+        message: alert.message,
+        details: alert.details,
+        createdAt: alert.createdAt,
+      },
+      rule: { id: rule.id, name: rule.name, type: rule.type },
+    });
+
+    if (status < 200 || status >= 300) {
+      throw new Error(`Webhook responded with ${status}`);
+    }
+  },
+};
+
+const deliveries: Record<AlertChannel, AlertDelivery> = {
+  IN_APP: inAppDelivery,
+  EMAIL: emailDelivery,
+  WEBHOOK: webhookDelivery,
+};
+
+/**
+ * Replace the implementation behind a delivery channel, e.g. to send email
+ * through a different provider.
+ */
+export const registerAlertDelivery = (channel: AlertChannel, delivery: AlertDelivery) => {
+  deliveries[channel] = delivery;
+};
+
+/**
+ * Send an alert on each of the rule's channels. A failing channel is logged
+ * and reported in the result without affecting the others.
+ */
+export const deliverAlert = async (
+  alert: Alert,
+  rule: AlertRule,
+  recipient: { email: string }
+): Promise<DeliveryResult[]> => {
+  return Promise.all(rule.channels.map(async (channel): Promise<DeliveryResult> => {
+    try {
+      await deliveries[channel].deliver(alert, rule, recipient);
+      return { channel, status: 'sent' };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Alert ${alert.id} delivery via ${channel} failed: ${message}`);
+      return { channel, status: 'failed', error: message };
+    }
+  }));
+};
@@ -0,0 +1,190 @@
+import { AlertRule, Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { buildConflictFilter } from './conflictFilters';
+import { countConflicts, groupConflicts } from './conflictStats';
+import { deliverAlert } from './alertDelivery';
+
+type RuleWithUser = AlertRule & { user: { email: string } };
+
+interface RuleState {
+  // Threshold rules: whether the last evaluation was above the threshold
+  exceeded?: boolean;
+  // New event type rules: every event type seen so far among the matching conflicts
+  eventTypes?: string[];
+}
+
+interface Trigger {
+  message: string;
+  details: Record<string, any>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const checkThreshold = async (
+  rule: AlertRule,
+  where: Prisma.Sql,
+  state: RuleState,
+  now: Date
+): Promise<{ trigger: Trigger | null; state: RuleState }> => {
+  const since = new Date(now.getTime() - rule.windowDays * DAY_MS);
+  const totals = await countConflicts(Prisma.sql`(${where}) AND c."date" BETWEEN ${since} AND ${now}`);
+
+  const metric = rule.type === 'FATALITIES_ABOVE' ? 'fatalities' : 'events';
+  const value = totals[metric];
+  const exceeded = value > (rule.threshold ?? 0);
+
+  // Alert when the threshold is crossed, not on every evaluation while it stays above
+  const trigger = exceeded && !state.exceeded
+    ? {
+      message: `${rule.name}: ${value} ${metric} in the last ${rule.windowDays} days (threshold ${rule.threshold})`,
+      details: { metric, value, threshold: rule.threshold, windowDays: rule.windowDays, since, until: now },
+    }
+    : null;
+
+  return { trigger, state: { exceeded } };
+};
+
+const checkNewEventTypes = async (
+  rule: AlertRule,
+  where: Prisma.Sql,
+  state: RuleState
+): Promise<{ trigger: Trigger | null; state: RuleState }> => {
+  const groups = await groupConflicts(where, 'eventType');
+
+  const current = groups.map((group) => group.group);
+
+  // The first evaluation only records the baseline
+  if (!state.eventTypes) {
+    return { trigger: null, state: { eventTypes: current } };
+  }
+
+  const seen = state.eventTypes;
+  const added = current.filter((eventType) => !seen.includes(eventType));
+  const trigger = added.length > 0
+    ? {
+      message: `${rule.name}: new event type${added.length > 1 ? 's' : ''} ${added.join(', ')}`,
+      details: {
+        eventTypes: added.map((eventType) => ({
+          eventType,
+          count: groups.find((group) => group.group === eventType)?.events || 0,
+        })),
+      },
+    }
+    : null;
+
+  return { trigger, state: { eventTypes: [...seen, ...added] } };
+};
+
+/**
+ * Evaluate one rule against the current data, store an alert and deliver it
+ * when the rule fires, and record the rule's new state. Returns the alert, if any.
+ */
+export const evaluateRule = async (rule: RuleWithUser, now: Date = new Date()) => {
+  const { where } = buildConflictFilter(rule.filters as Record<string, any>);
+  const previous = (rule.state || {}) as RuleState;
+
+  const { trigger, state } = rule.type === 'NEW_EVENT_TYPE'
+    ? await checkNewEventTypes(rule, where, previous)
+    : await checkThreshold(rule, where, previous, now);
+
+  await prisma.alertRule.update({
+    where: { id: rule.id },
+    data: {
+      state: state as Prisma.InputJsonValue,
+      lastEvaluatedAt: now,
+      ...(trigger && { lastTriggeredAt: now }),
+    },
+  });
+
+  if (!trigger) return null;
+
+  const alert = await prisma.alert.create({
+    data: {
+      ruleId: rule.id,
+      userId: rule.userId,
+      message: trigger.message,
+      details: { filters: rule.filters, ...trigger.details } as Prisma.InputJsonValue,
+    },
+  });
+
+  const deliveries = await deliverAlert(alert, rule, rule.user);
+
+  return prisma.alert.update({
+    where: { id: alert.id },
+    data: { deliveries: deliveries as unknown as Prisma.InputJsonValue },
+  });
+};
+
+/**
+ * Evaluate every enabled rule. A rule that fails is logged and skipped.
+ */
+export const evaluateAlertRules = async () => {
+  const rules = await prisma.alertRule.findMany({
+    where: { enabled: true },
+    include: { user: { select: { email: true } } },
+  });
+
+  let triggered = 0;
+
+  for (const rule of rules) {
+    try {
+      if (await evaluateRule(rule)) triggered++;
+    } catch (error) {
+      logger.error(`Alert rule ${rule.id} evaluation failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return { evaluated: rules.length, triggered };
+};
+
+/*
+ * Background evaluation. Rules run on a fixed interval and, debounced, shortly
+ * after conflict data changes. Timers are unref'd so short-lived processes such
+ * as the import CLI are not kept alive by them.
+ */
+const DEBOUNCE_MS = Number(process.env.ALERT_EVALUATION_DEBOUNCE_MS || 5000);
+
+let running: Promise<unknown> | null = null;
+let rerun = false;
+let debounceTimer: NodeJS.Timeout | null = null;
+
+const runEvaluation = () => {
+  if (running) {
+    rerun = true;
+    return;
+  }
+
+  running = evaluateAlertRules()
+    .then(({ evaluated, triggered }) => {
+      if (triggered > 0) logger.info(`Alert evaluation: ${triggered} of ${evaluated} rules triggered`);
+    })
+    .catch((error) => logger.error(`Alert evaluation failed: ${error instanceof Error ? error.message : error}`))
+    .finally(() => {
+      running = null;
+      if (rerun) {
+        rerun = false;
+        runEvaluation();
+      }
+    });
+};
+
+// Called after conflict writes; bursts such as an import collapse into one evaluation
+export const requestAlertEvaluation = () => {
+  if (debounceTimer) clearTimeout(debounceTimer);
+  debounceTimer = setTimeout(() => {
+    debounceTimer = null;
+    runEvaluation();
+  }, DEBOUNCE_MS);
+  debounceTimer.unref();
+};
+
+export const startAlertEvaluator = (
+  intervalMs: number = Number(process.env.ALERT_EVALUATION_INTERVAL_MS || 5 * 60 * 1000)
+) => {
+  const timer = setInterval(runEvaluation, intervalMs);
+  timer.unref();
+  runEvaluation();
+
+  return timer;
+};
@@ -0,0 +1,445 @@
+import { Writable } from 'stream';
+import { createReadStream } from 'fs';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import ExcelJS from 'exceljs';
+import { Conflict, Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { formatCsvRow } from '../utils/csv';
+import { countConflicts } from './conflictStats';
+import { createGeoPackage, GeoPackageColumn, GeoPackageFeature } from '../utils/geopackage';
+
+export const EXPORT_BATCH_SIZE = 1000;
+
+export type ExportSortField = 'date' | 'country' | 'eventType';
+
+export interface ExportOptions {
+  sortBy?: ExportSortField;
+  sortOrder?: 'asc' | 'desc';
+  batchSize?: number;
+  // Called with the running row count after each batch has been written
+  onProgress?: (processed: number) => void | Promise<void>;
+  // The filters as requested, for formats that describe what they contain
+  filters?: Record<string, unknown>;
+}
+
+export interface ConflictExporter {
+  contentType: string;
+  extension: string;
+  write(out: Writable, where: Prisma.Sql, options: ExportOptions): Promise<void>;
+}
+
+const SORT_COLUMNS: Record<ExportSortField, Prisma.Sql> = {
+  date: Prisma.raw('c."date"'),
+  country: Prisma.raw('c."country"'),
+  eventType: Prisma.raw('c."eventType"'),
+};
+
+/**
+ * Read the conflicts matching a filter in batches, using a keyset cursor on
+ * the sort field and id so memory stays flat however many rows match. Only
+ * non-nullable sort fields are supported, as the cursor comparison skips nulls.
+ */
+export async function* conflictBatches(
+  where: Prisma.Sql,
+  { sortBy = 'date', sortOrder = 'desc', batchSize = EXPORT_BATCH_SIZE, onProgress }: ExportOptions = {}
+): AsyncGenerator<Conflict[]> {
+  const column = SORT_COLUMNS[sortBy];
+  const direction = Prisma.raw(sortOrder === 'asc' ? 'ASC' : 'DESC');
+  const comparison = Prisma.raw(sortOrder === 'asc' ? '>' : '<');
+  let cursor: Conflict | undefined;
+  let processed = 0;
+
+  for (;;) {
+    const after = cursor
+      ? Prisma.sql`AND (${column}, c."id") ${comparison} (${cursor[sortBy]}, ${cursor.id})`
+      : Prisma.empty;
+    const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT c."id" FROM conflicts c
+      WHERE (${where}) ${after}
+      ORDER BY ${column} ${direction}, c."id" ${direction}
+      LIMIT ${batchSize}
+    `;
+    const ids = rows.map((row) => row.id);
+    const byId = new Map(
+      (ids.length > 0 ? await prisma.conflict.findMany({ where: { id: { in: ids } } }) : [])
+        .map((conflict) => [conflict.id, conflict])
+    );
+    const batch = ids.map((id) => byId.get(id)).filter((conflict): conflict is Conflict => !!conflict);
+
+    if (batch.length > 0) {
+      yield batch;
+      processed += batch.length;
+      await onProgress?.(processed);
+    }
+    if (rows.length < batchSize || batch.length === 0) return;
+
+    cursor = batch[batch.length - 1];
+  }
+}
+
+// Resolve once the destination drains; reject if it closes first, e.g. when the client disconnects
+const drained = (out: Writable) => new Promise<void>((resolve, reject) => {
+  const onDrain = () => {
+    out.off('close', onClose);
+    resolve();
+  };
+  const onClose = () => {
+    out.off('drain', onDrain);
+    reject(new Error('Export destination closed'));
+  };
+
+  out.once('drain', onDrain);
+  out.once('close', onClose);
+});
+
+/**
+ * Write a chunk, waiting for the destination to drain when its buffer is full.
+ */
+export const writeChunk = async (out: Writable, chunk: string | Buffer) => {
+  if (out.destroyed) {
+    throw new Error('Export destination closed');
+  }
+
+  if (!out.write(chunk)) {
+    await drained(out);
+  }
+};
+
+const CSV_COLUMNS: Array<[string, (conflict: Conflict) => unknown]> = [
+  ['ID', (conflict) => conflict.id],
+  ['Title', (conflict) => conflict.title],
+  ['Description', (conflict) => conflict.description],
+  ['Country', (conflict) => conflict.country],
+  ['Region', (conflict) => conflict.region],
+  ['Event Type', (conflict) => conflict.eventType],
+  ['Sub Event Type', (conflict) => conflict.subEventType],
+  ['Date', (conflict) => conflict.date.toISOString().split('T')[0]],
+  ['Fatalities', (conflict) => conflict.fatalities],
+  ['Fatalities Min', (conflict) => conflict.fatalitiesMin],
+  ['Fatalities Max', (conflict) => conflict.fatalitiesMax],
+  ['Latitude', (conflict) => conflict.latitude],
+  ['Longitude', (conflict) => conflict.longitude],
+  ['Source', (conflict) => conflict.source],
+];
+
+const csvExporter: ConflictExporter = {
+  contentType: 'text/csv; charset=utf-8',
+  extension: 'csv',
+  write: async (out, where, options) => {
+    await writeChunk(out, formatCsvRow(CSV_COLUMNS.map(([header]) => header)));
+
+    for await (const batch of conflictBatches(where, options)) {
+      const rows = batch.map((conflict) => formatCsvRow(CSV_COLUMNS.map(([, value]) => value(conflict))));
+      await writeChunk(out, rows.join(''));
+    }
+  },
+};
+
+// Same document as before streaming: { exportDate, totalRecords, data }
+const jsonExporter: ConflictExporter = {
+  contentType: 'application/json; charset=utf-8',
+  extension: 'json',
+  write: async (out, where, options) => {
+    const { events: totalRecords } = await countConflicts(where);
+    await writeChunk(out, `{"exportDate":${JSON.stringify(new Date())},"totalRecords":${totalRecords},"data":[`);
+
+    let first = true;
+    for await (const batch of conflictBatches(where, options)) {
+      const rows = batch.map((conflict) => JSON.stringify(conflict)).join(',');
+      await writeChunk(out, first ? rows : `,${rows}`);
+      first = false;
+    }
+
+    await writeChunk(out, ']}');
+  },
+};
+
+// Every scalar field except the coordinates, which become the geometry
+const featureProperties = ({ id, latitude, longitude, ...properties }: Conflict) => properties;
+
+// RFC 7946 FeatureCollection of points, with the conflict id as the feature id
+const geojsonExporter: ConflictExporter = {
+  contentType: 'application/geo+json; charset=utf-8',
+  extension: 'geojson',
+  write: async (out, where, options) => {
+    await writeChunk(out, '{"type":"FeatureCollection","features":[');
+
+    let first = true;
+    for await (const batch of conflictBatches(where, options)) {
+      const features = batch.map((conflict) => JSON.stringify({
+        type: 'Feature',
+        id: conflict.id,
+        geometry: { type: 'Point', coordinates: [conflict.longitude, conflict.latitude] },
+        properties: featureProperties(conflict),
+      })).join(',');
+      await writeChunk(out, first ? features : `,${features}`);
+      first = false;
+    }
+
+    await writeChunk(out, ']}');
+  },
+};
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const kmlValue = (value: unknown) => {
+  if (value instanceof Date) return value.toISOString();
+  if (value !== null && typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const kmlPlacemark = (conflict: Conflict) => {
+  const data = Object.entries(featureProperties(conflict))
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([name, value]) => `<Data name="${name}"><value>${escapeXml(kmlValue(value))}</value></Data>`)
+    .join('');
+
+  return `<Placemark id="${escapeXml(conflict.id)}">`
+    + `<name>${escapeXml(conflict.title)}</name>`
+    + (conflict.description ? `<description>${escapeXml(conflict.description)}</description>` : '')
+    + `<TimeStamp><when>${conflict.date.toISOString()}</when></TimeStamp>`
+    + `<ExtendedData>${data}</ExtendedData>`
+    + `<Point><coordinates>${conflict.longitude},${conflict.latitude}</coordinates></Point>`
+    + '</Placemark>\n';
+};
+
+// KML 2.2 with one placemark per conflict, timestamped so Google Earth can animate it
+const kmlExporter: ConflictExporter = {
+  contentType: 'application/vnd.google-earth.kml+xml; charset=utf-8',
+  extension: 'kml',
+  write: async (out, where, options) => {
+    await writeChunk(out, '<?xml version="1.0" encoding="UTF-8"?>\n'
+      + '<kml xmlns="http://www.opengis.net/kml/2.2"><Document><name>Conflicts</name>\n');
+
+    for await (const batch of conflictBatches(where, options)) {
+      await writeChunk(out, batch.map(kmlPlacemark).join(''));
+    }
+
+    await writeChunk(out, '</Document></kml>\n');
+  },
+};
+
+const GEOPACKAGE_COLUMNS: GeoPackageColumn[] = [
+  { name: 'id', type: 'TEXT' },
+  { name: 'title', type: 'TEXT' },
+  { name: 'description', type: 'TEXT' },
+  { name: 'country', type: 'TEXT' },
+  { name: 'region', type: 'TEXT' },
+  { name: 'event_type', type: 'TEXT' },
+  { name: 'sub_event_type', type: 'TEXT' },
+  { name: 'date', type: 'DATE' },
+  { name: 'date_precision', type: 'INTEGER' },
+  { name: 'fatalities', type: 'INTEGER' },
+  { name: 'fatalities_min', type: 'INTEGER' },
+  { name: 'fatalities_max', type: 'INTEGER' },
+  { name: 'location_precision', type: 'INTEGER' },
+  { name: 'latitude', type: 'REAL' },
+  { name: 'longitude', type: 'REAL' },
+  { name: 'source', type: 'TEXT' },
+  { name: 'external_id', type: 'TEXT' },
+  { name: 'attributes', type: 'TEXT' },
+  { name: 'location_mismatch', type: 'BOOLEAN' },
+  { name: 'created_at', type: 'DATETIME' },
+  { name: 'updated_at', type: 'DATETIME' },
+];
+
+const geopackageFeature = (conflict: Conflict): GeoPackageFeature => ({
+  longitude: conflict.longitude,
+  latitude: conflict.latitude,
+  properties: {
+    id: conflict.id,
+    title: conflict.title,
+    description: conflict.description,
+    country: conflict.country,
+    region: conflict.region,
+    event_type: conflict.eventType,
+    sub_event_type: conflict.subEventType,
+    date: conflict.date.toISOString().split('T')[0],
+    date_precision: conflict.datePrecision,
+    fatalities: conflict.fatalities,
+    fatalities_min: conflict.fatalitiesMin,
+    fatalities_max: conflict.fatalitiesMax,
+    location_precision: conflict.locationPrecision,
+    latitude: conflict.latitude,
+    longitude: conflict.longitude,
+    source: conflict.source,
+    external_id: conflict.externalId,
+    attributes: conflict.attributes === null ? null : JSON.stringify(conflict.attributes),
+    location_mismatch: conflict.locationMismatch ? 1 : 0,
+    created_at: conflict.createdAt.toISOString(),
+    updated_at: conflict.updatedAt.toISOString(),
+  },
+});
+
+/*
+ * A GeoPackage is an SQLite database, which cannot be written as a stream, so
+ * it is built in a temporary file and streamed from there.
+ */
+const geopackageExporter: ConflictExporter = {
+  contentType: 'application/geopackage+sqlite3',
+  extension: 'gpkg',
+  write: async (out, where, options) => {
+    const directory = await mkdtemp(join(tmpdir(), 'conflict-export-'));
+    const path = join(directory, 'conflicts.gpkg');
+
+    try {
+      const geopackage = createGeoPackage(path, 'conflicts', GEOPACKAGE_COLUMNS, 'Conflict events exported from the Global Conflict Data Platform');
+      try {
+        for await (const batch of conflictBatches(where, options)) {
+          geopackage.addFeatures(batch.map(geopackageFeature));
+        }
+      } finally {
+        geopackage.close();
+      }
+
+      for await (const chunk of createReadStream(path)) {
+        await writeChunk(out, chunk);
+      }
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  },
+};
+
+type XlsxFieldType = 'Text' | 'Integer' | 'Number' | 'Date' | 'Date and time' | 'Boolean';
+
+interface XlsxField {
+  header: string;
+  type: XlsxFieldType;
+  description: string;
+  value: (conflict: Conflict) => string | number | boolean | Date | null;
+  width?: number;
+}
+
+const XLSX_FIELDS: XlsxField[] = [
+  { header: 'ID', type: 'Text', description: 'Unique identifier of the event on this platform', value: (conflict) => conflict.id, width: 28 },
+  { header: 'Title', type: 'Text', description: 'Short summary of the event', value: (conflict) => conflict.title, width: 40 },
+  { header: 'Description', type: 'Text', description: 'Narrative description of the event, as reported', value: (conflict) => conflict.description, width: 60 },
+  { header: 'Country', type: 'Text', description: 'Country where the event took place', value: (conflict) => conflict.country, width: 20 },
+  { header: 'Region', type: 'Text', description: 'World region of the country', value: (conflict) => conflict.region, width: 20 },
+  { header: 'Event Type', type: 'Text', description: 'Event type from the platform taxonomy (ACLED event types)', value: (conflict) => conflict.eventType, width: 26 },
+  { header: 'Sub Event Type', type: 'Text', description: 'Sub-event type within the event type, where known', value: (conflict) => conflict.subEventType, width: 26 },
+  { header: 'Date', type: 'Date', description: 'Date of the event (UTC)', value: (conflict) => conflict.date, width: 12 },
+  { header: 'Date Precision', type: 'Integer', description: 'ACLED time precision: 1 = exact day, 2 = within a week, 3 = within a month', value: (conflict) => conflict.datePrecision },
+  { header: 'Fatalities', type: 'Integer', description: 'Reported fatalities (best estimate); empty when unknown', value: (conflict) => conflict.fatalities },
+  { header: 'Fatalities Min', type: 'Integer', description: 'Lower bound of the reported fatality range', value: (conflict) => conflict.fatalitiesMin },
+  { header: 'Fatalities Max', type: 'Integer', description: 'Upper bound of the reported fatality range', value: (conflict) => conflict.fatalitiesMax },
+  { header: 'Latitude', type: 'Number', description: 'Latitude in decimal degrees (WGS 84)', value: (conflict) => conflict.latitude },
+  { header: 'Longitude', type: 'Number', description: 'Longitude in decimal degrees (WGS 84)', value: (conflict) => conflict.longitude },
+  { header: 'Location Precision', type: 'Integer', description: 'ACLED geo precision: 1 = exact location, 2 = nearby area, 3 = wider region', value: (conflict) => conflict.locationPrecision },
+  { header: 'Source', type: 'Text', description: 'Dataset the event was recorded from', value: (conflict) => conflict.source, width: 14 },
+  { header: 'External ID', type: 'Text', description: 'Identifier of the event in the source dataset', value: (conflict) => conflict.externalId, width: 16 },
+  { header: 'Location Mismatch', type: 'Boolean', description: 'Whether the coordinates fall outside the stated country', value: (conflict) => conflict.locationMismatch },
+  { header: 'Created At', type: 'Date and time', description: 'When the event was added to the platform (UTC)', value: (conflict) => conflict.createdAt, width: 20 },
+  { header: 'Updated At', type: 'Date and time', description: 'When the event was last changed on the platform (UTC)', value: (conflict) => conflict.updatedAt, width: 20 },
+];
+
+const XLSX_NUMBER_FORMATS: Partial<Record<XlsxFieldType, string>> = {
+  Integer: '0',
+  Number: '0.000000',
+  Date: 'yyyy-mm-dd',
+  'Date and time': 'yyyy-mm-dd hh:mm:ss',
+};
+
+const EXPORT_CITATION = process.env.EXPORT_CITATION
+  || 'Global Conflict Data Platform, conflict event data export. Events sourced from the Armed Conflict Location & Event Data Project (ACLED), www.acleddata.com.';
+
+const describeFilter = (value: unknown) => {
+  if (value instanceof Date) return value.toISOString();
+  if (value !== null && typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+/*
+ * Excel workbook written with exceljs' streaming writer: a "Conflicts" sheet
+ * with typed columns, then an "About" sheet with the data dictionary, the
+ * filters applied, the export time and the citation.
+ */
+const xlsxExporter: ConflictExporter = {
+  contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  extension: 'xlsx',
+  write: async (out, where, options) => {
+    const exportedAt = new Date();
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: out, useStyles: true });
+    workbook.created = exportedAt;
+
+    const data = workbook.addWorksheet('Conflicts', { views: [{ state: 'frozen', ySplit: 1 }] });
+    data.columns = XLSX_FIELDS.map((field) => ({
+      header: field.header,
+      width: field.width || 14,
+      style: XLSX_NUMBER_FORMATS[field.type] ? { numFmt: XLSX_NUMBER_FORMATS[field.type] } : {},
+    }));
+    data.getRow(1).font = { bold: true };
+
+    let records = 0;
+    for await (const batch of conflictBatches(where, options)) {
+      batch.forEach((conflict) => {
+        data.addRow(XLSX_FIELDS.map((field) => field.value(conflict))).commit();
+      });
+      records += batch.length;
+
+      // The writer buffers what the destination has not taken yet
+      if (out.writableNeedDrain) await drained(out);
+    }
+    data.commit();
+
+    const about = workbook.addWorksheet('About');
+    about.columns = [{ width: 22 }, { width: 16 }, { width: 90 }];
+
+    const section = (title: string) => {
+      about.addRow([]).commit();
+      const row = about.addRow([title]);
+      row.font = { bold: true };
+      row.commit();
+    };
+
+    const titleRow = about.addRow(['Global Conflict Data Platform export']);
+    titleRow.font = { bold: true, size: 14 };
+    titleRow.commit();
+
+    const exportedRow = about.addRow(['Exported at', exportedAt]);
+    exportedRow.getCell(2).numFmt = 'yyyy-mm-dd hh:mm:ss';
+    exportedRow.commit();
+    about.addRow(['Records', records]).commit();
+    about.addRow(['Sort', `${options.sortBy || 'date'} ${options.sortOrder || 'desc'}`]).commit();
+
+    section('Filters applied');
+    const filters = Object.entries(options.filters || {}).filter(([, value]) => value !== undefined && value !== '');
+    if (filters.length === 0) {
+      about.addRow(['None (all conflicts)']).commit();
+    }
+    filters.forEach(([name, value]) => about.addRow([name, describeFilter(value)]).commit());
+
+    section('Citation');
+    about.addRow([EXPORT_CITATION]).commit();
+
+    section('Fields');
+    const fieldHeader = about.addRow(['Column', 'Type', 'Description']);
+    fieldHeader.font = { bold: true };
+    fieldHeader.commit();
+    XLSX_FIELDS.forEach((field) => about.addRow([field.header, field.type, field.description]).commit());
+    about.commit();
+
+    await workbook.commit();
+  },
+};
+
+export const conflictExporters = {
+  json: jsonExporter,
+  csv: csvExporter,
+  geojson: geojsonExporter,
+  kml: kmlExporter,
+  gpkg: geopackageExporter,
+  xlsx: xlsxExporter,
+};
+
+export type ExportFormat = keyof typeof conflictExporters;
+
+export const EXPORT_FORMATS = Object.keys(conflictExporters) as ExportFormat[];
@@ -0,0 +1,210 @@
+import { Prisma } from '@prisma/client';
+import { EARTH_RADIUS_KM, KM_PER_DEGREE, geometryBBox, BBox } from '../utils/geo';
+import { parseCsv } from '../utils/csv';
+import { textMatches, textRank } from './conflictSearch';
+
+export interface ConflictFilter {
+  // SQL condition on the conflicts table, aliased `c`
+  where: Prisma.Sql;
+  // Full-text relevance of a row, present when `q` was given
+  rank?: Prisma.Sql;
+}
+
+/**
+ * Join SQL conditions with AND; TRUE when there are none.
+ */
+export const sqlAnd = (conditions: Prisma.Sql[]): Prisma.Sql =>
+  conditions.length === 0
+    ? Prisma.sql`TRUE`
+    : Prisma.join(conditions.map((condition) => Prisma.sql`(${condition})`), ' AND ');
+
+const sqlOr = (conditions: Prisma.Sql[]): Prisma.Sql =>
+  conditions.length === 0
+    ? Prisma.sql`FALSE`
+    : Prisma.join(conditions.map((condition) => Prisma.sql`(${condition})`), ' OR ');
+
+const parseBBox = (value: string): BBox => value.split(',').map(Number) as BBox;
+
+type TextField = 'country' | 'region' | 'eventType';
+
+const TEXT_COLUMNS: Record<TextField, Prisma.Sql> = {
+  country: Prisma.raw('c."country"'),
+  region: Prisma.raw('c."region"'),
+  eventType: Prisma.raw('c."eventType"'),
+};
+
+// Repeated parameters arrive as arrays, and each value may itself be a comma-separated list
+const listValues = (value: unknown): string[] =>
+  (Array.isArray(value) ? value : [value])
+    .flatMap((item) => parseCsv(String(item))[0] || [])
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// Literal text inside a LIKE pattern
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+// Matches any of the values, case-insensitively, as a substring or exactly
+const textMatch = (field: TextField, values: string[], exact: boolean): Prisma.Sql => {
+  const column = TEXT_COLUMNS[field];
+
+  return exact
+    ? Prisma.sql`lower(${column}) IN (${Prisma.join(values.map((value) => value.toLowerCase()))})`
+    : Prisma.sql`${column} ILIKE ANY (ARRAY[${Prisma.join(values.map((value) => `%${escapeLike(value)}%`))}])`;
+};
+
+/**
+ * Conflicts whose text field contains `value`, case-insensitively. For
+ * routes that match a single free-text value, such as a region in a path.
+ */
+export const textContains = (field: TextField, value: string): Prisma.Sql => textMatch(field, [value], false);
+
+// Coordinate range for a box, split in two when it crosses the antimeridian
+const bboxWhere = ([minLon, minLat, maxLon, maxLat]: BBox): Prisma.Sql => Prisma.sql`
+  c."latitude" BETWEEN ${minLat} AND ${maxLat}
+  AND ${minLon <= maxLon
+    ? Prisma.sql`c."longitude" BETWEEN ${minLon} AND ${maxLon}`
+    : Prisma.sql`(c."longitude" >= ${minLon} OR c."longitude" <= ${maxLon})`}
+`;
+
+// A box enclosing the circle; it lets the coordinate index narrow the rows before the exact distance test
+const radiusBBox = (latitude: number, longitude: number, radiusKm: number): BBox => {
+  const dLat = radiusKm / KM_PER_DEGREE;
+  const dLon = radiusKm / (KM_PER_DEGREE * Math.max(Math.cos((latitude * Math.PI) / 180), 1e-6));
+
+  if (Math.abs(latitude) + dLat >= 90 || dLon >= 180) {
+    return [-180, Math.max(latitude - dLat, -90), 180, Math.min(latitude + dLat, 90)];
+  }
+
+  const wrap = (lon: number) => ((lon + 540) % 360) - 180;
+
+  return [wrap(longitude - dLon), latitude - dLat, wrap(longitude + dLon), latitude + dLat];
+};
+
+// Haversine great-circle distance from the point
+const withinRadius = (latitude: number, longitude: number, radiusKm: number): Prisma.Sql => Prisma.sql`
+  2 * ${EARTH_RADIUS_KM} * asin(least(1, sqrt(
+    power(sin(radians(c."latitude" - ${latitude}) / 2), 2)
+    + cos(radians(${latitude})) * cos(radians(c."latitude"))
+    * power(sin(radians(c."longitude" - ${longitude}) / 2), 2)
+  ))) <= ${radiusKm}
+`;
+
+// Postgres' built-in polygon type; lon/lat are planar here, as in the GeoJSON geometry itself
+const ringContains = (ring: number[][]): Prisma.Sql => {
+  const text = `(${ring.map(([lon, lat]) => `(${lon},${lat})`).join(',')})`;
+  return Prisma.sql`CAST(${text} AS polygon) @> point(c."longitude", c."latitude")`;
+};
+
+const withinPolygon = ([outer, ...holes]: number[][][]): Prisma.Sql =>
+  sqlAnd([ringContains(outer), ...holes.map((hole) => Prisma.sql`NOT ${ringContains(hole)}`)]);
+
+const withinGeometry = (geometry: { type: string; coordinates: any }): Prisma.Sql => {
+  const polygons: number[][][][] = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return sqlAnd([bboxWhere(geometryBBox(geometry)), sqlOr(polygons.map(withinPolygon))]);
+};
+
+/**
+ * Translate the shared conflict filter parameters (see conflictFilterFields)
+ * into a SQL condition on `conflicts c`. Everything, including the radius and
+ * polygon tests, is evaluated by the database.
+ */
+export const buildConflictFilter = (
+  filters: Record<string, any>,
+  polygon?: { type: string; coordinates: any }
+): ConflictFilter => {
+  const {
+    q,
+    country,
+    region,
+    eventType,
+    excludeCountry,
+    excludeRegion,
+    excludeEventType,
+    match = 'contains',
+    minFatalities,
+    maxFatalities,
+    actorId,
+    actor,
+    countryIso,
+    admin1Id,
+    admin2Id,
+    locationId,
+    locationMismatch,
+    startDate,
+    endDate,
+    bbox,
+    latitude,
+    longitude,
+    radiusKm,
+  } = filters;
+
+  const conditions: Prisma.Sql[] = [];
+
+  const exact = match === 'exact';
+  const textFilters: Array<[TextField, unknown, unknown]> = [
+    ['country', country, excludeCountry],
+    ['region', region, excludeRegion],
+    ['eventType', eventType, excludeEventType],
+  ];
+
+  textFilters.forEach(([field, include, exclude]) => {
+    const included = listValues(include ?? []);
+    const excluded = listValues(exclude ?? []);
+
+    if (included.length > 0) conditions.push(textMatch(field, included, exact));
+    if (excluded.length > 0) conditions.push(Prisma.sql`NOT ${textMatch(field, excluded, exact)}`);
+  });
+
+  if (minFatalities !== undefined) conditions.push(Prisma.sql`c."fatalities" >= ${Number(minFatalities)}`);
+  if (maxFatalities !== undefined) conditions.push(Prisma.sql`c."fatalities" <= ${Number(maxFatalities)}`);
+
+  if (actorId || actor) {
+    conditions.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM conflict_actors ca
+      JOIN actors a ON a."id" = ca."actorId"
+      WHERE ${sqlAnd([
+        Prisma.sql`ca."conflictId" = c."id"`,
+        ...(actorId ? [Prisma.sql`ca."actorId" = ${String(actorId)}`] : []),
+        ...(actor ? [Prisma.sql`a."name" ILIKE ${`%${escapeLike(String(actor))}%`}`] : []),
+      ])}
+    )`);
+  }
+
+  if (countryIso) {
+    const code = String(countryIso).toUpperCase();
+    const column = Prisma.raw(code.length === 2 ? 'k."iso2"' : 'k."iso3"');
+    conditions.push(Prisma.sql`c."countryId" IN (SELECT k."id" FROM countries k WHERE ${column} = ${code})`);
+  }
+
+  if (admin1Id) conditions.push(Prisma.sql`c."admin1Id" = ${String(admin1Id)}`);
+  if (admin2Id) conditions.push(Prisma.sql`c."admin2Id" = ${String(admin2Id)}`);
+  if (locationId) conditions.push(Prisma.sql`c."locationId" = ${String(locationId)}`);
+  if (locationMismatch !== undefined) {
+    conditions.push(Prisma.sql`c."locationMismatch" = ${String(locationMismatch) === 'true'}`);
+  }
+
+  if (startDate) conditions.push(Prisma.sql`c."date" >= ${new Date(String(startDate))}`);
+  if (endDate) conditions.push(Prisma.sql`c."date" <= ${new Date(String(endDate))}`);
+
+  if (bbox) {
+    conditions.push(bboxWhere(parseBBox(String(bbox))));
+  }
+
+  if (radiusKm !== undefined) {
+    const [lat, lon, radius] = [Number(latitude), Number(longitude), Number(radiusKm)];
+    conditions.push(bboxWhere(radiusBBox(lat, lon, radius)), withinRadius(lat, lon, radius));
+  }
+
+  if (polygon) {
+    conditions.push(withinGeometry(polygon));
+  }
+
+  if (q) {
+    conditions.push(textMatches(String(q)));
+  }
+
+  return {
+    where: sqlAnd(conditions),
+    rank: q ? textRank(String(q)) : undefined,
+  };
+};
@@ -0,0 +1,54 @@
+import { hexCell } from './conflictGrid';
+
+jest.mock('../utils/prisma', () => ({ prisma: {} }));
+
+const distance = ([x1, y1]: number[], [x2, y2]: number[]) => Math.hypot(x2 - x1, y2 - y1);
+
+const center = (ring: number[][]) => {
+  const corners = ring.slice(0, 6);
+  return [0, 1].map((axis) => corners.reduce((sum, corner) => sum + corner[axis], 0) / 6);
+};
+
+describe('hexCell', () => {
+  it('keys cells by their axial coordinates', () => {
+    expect(hexCell(3, -2, 1).key).toBe('3:-2');
+  });
+
+  it('returns a closed ring of six corners', () => {
+    const { ring } = hexCell(0, 0, 1);
+    expect(ring).toHaveLength(7);
+    expect(ring[6]).toEqual(ring[0]);
+    expect(new Set(ring.slice(0, 6).map((corner) => corner.join(','))).size).toBe(6);
+  });
+
+  it('is a regular hexagon centred on the origin at (0, 0)', () => {
+    const size = 2;
+    const { ring } = hexCell(0, 0, size);
+    const [lon, lat] = center(ring);
+
+    expect(lon).toBeCloseTo(0, 5);
+    expect(lat).toBeCloseTo(0, 5);
+    ring.slice(0, 6).forEach((corner) => expect(distance(corner, [0, 0])).toBeCloseTo(size / Math.sqrt(3), 5));
+  });
+
+  it('is size wide from flat side to flat side', () => {
+    const { ring } = hexCell(0, 0, 0.5);
+    const lons = ring.map(([lon]) => lon);
+    expect(Math.max(...lons) - Math.min(...lons)).toBeCloseTo(0.5, 5);
+  });
+
+  it('tiles neighbours size apart, sharing an edge', () => {
+    const size = 1;
+    const origin = hexCell(0, 0, size).ring;
+    const neighbours: Array<[number, number]> = [[1, 0], [-1, 0], [0, 1], [0, -1], [1, -1], [-1, 1]];
+
+    neighbours.forEach(([x, z]) => {
+      const { ring } = hexCell(x, z, size);
+      expect(distance(center(ring), center(origin))).toBeCloseTo(size, 5);
+
+      const shared = ring.slice(0, 6).filter((corner) =>
+        origin.slice(0, 6).some((other) => distance(corner, other) < 1e-5));
+      expect(shared).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { Prisma } from '@prisma/client';
+import type { Feature, FeatureCollection, Polygon } from 'geojson';
+import { prisma } from '../utils/prisma';
+
+export type GridShape = 'square' | 'hex';
+
+export interface GridCellProperties {
+  cell: string;
+  count: number;
+  fatalities: number;
+}
+
+interface Cell {
+  key: string;
+  ring: number[][];
+}
+
+const SQRT3 = Math.sqrt(3);
+
+const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+// Axis-aligned cell of `size` degrees whose lower-left corner is (col, row) * size
+const squareCell = (col: number, row: number, size: number): Cell => {
+  const [west, south] = [col * size, row * size];
+  const [east, north] = [west + size, south + size];
+
+  return {
+    key: `${col}:${row}`,
+    ring: [[west, south], [east, south], [east, north], [west, north], [west, south]]
+      .map(([x, y]) => [round(x), round(y)]),
+  };
+};
+
+/**
+ * Pointy-top hexagon at axial coordinates (x, z) on a grid whose cells are
+ * `size` degrees wide (flat side to flat side).
+ */
+export const hexCell = (x: number, z: number, size: number): Cell => {
+  const radius = size / SQRT3;
+  const centerLon = radius * SQRT3 * (x + z / 2);
+  const centerLat = radius * 1.5 * z;
+  const ring = [0, 1, 2, 3, 4, 5, 0].map((i) => {
+    const angle = (Math.PI / 180) * (60 * i - 30);
+    return [round(centerLon + radius * Math.cos(angle)), round(centerLat + radius * Math.sin(angle))];
+  });
+
+  return { key: `${x}:${z}`, ring };
+};
+
+// Square cell column and row of each conflict
+const squareIndex = (size: number) => Prisma.sql`
+  floor(c."longitude" / ${size}) AS x,
+  floor(c."latitude" / ${size}) AS z
+`;
+
+/*
+ * Axial coordinates of the hexagon containing each conflict, using cube
+ * rounding; lon/lat are treated as planar, as in any unprojected hexbin.
+ * floor(v + 0.5) rounds half up, like Math.round.
+ */
+const hexIndex = (size: number) => {
+  const radius = size / SQRT3;
+  const q = Prisma.sql`(${SQRT3 / 3} * c."longitude" - c."latitude" / 3) / ${radius}`;
+  const r = Prisma.sql`(${2 / 3} * c."latitude") / ${radius}`;
+  const [x, y, z] = [Prisma.sql`floor(${q} + 0.5)`, Prisma.sql`floor(-(${q}) - (${r}) + 0.5)`, Prisma.sql`floor(${r} + 0.5)`];
+  const [dx, dy, dz] = [Prisma.sql`abs(${x} - (${q}))`, Prisma.sql`abs(${y} + (${q}) + (${r}))`, Prisma.sql`abs(${z} - (${r}))`];
+
+  return Prisma.sql`
+    CASE WHEN ${dx} > ${dy} AND ${dx} > ${dz} THEN -${y} - ${z} ELSE ${x} END AS x,
+    CASE WHEN ${dx} > ${dy} AND ${dx} > ${dz} THEN ${z} WHEN ${dy} <= ${dz} THEN -${x} - ${y} ELSE ${z} END AS z
+  `;
+};
+
+/**
+ * Bin the conflicts matching `where` into a square or hexagonal grid of
+ * `cellSize` degrees. The database does the binning and returns one row per
+ * cell containing at least one event; only those cells are returned.
+ */
+export const aggregateGrid = async (
+  where: Prisma.Sql,
+  { cellSize, shape }: { cellSize: number; shape: GridShape }
+): Promise<FeatureCollection<Polygon, GridCellProperties>> => {
+  const cells = await prisma.$queryRaw<Array<{ x: number; z: number; count: number; fatalities: number }>>`
+    SELECT cell.x::int AS x, cell.z::int AS z, COUNT(*)::int AS count, COALESCE(SUM(cell.fatalities), 0)::int AS fatalities
+    FROM (
+      SELECT ${shape === 'hex' ? hexIndex(cellSize) : squareIndex(cellSize)}, c."fatalities"
+      FROM conflicts c
+      WHERE ${where}
+    ) cell
+    GROUP BY cell.x, cell.z
+  `;
+
+  const toCell = shape === 'hex' ? hexCell : squareCell;
+
+  return {
+    type: 'FeatureCollection',
+    features: cells.map(({ x, z, count, fatalities }): Feature<Polygon, GridCellProperties> => {
+      const { key, ring } = toCell(x, z, cellSize);
+      return {
+        type: 'Feature',
+        geometry: { type: 'Polygon', coordinates: [ring] },
+        properties: { cell: key, count, fatalities },
+      };
+    }),
+  };
+};
@@ -0,0 +1,262 @@
+import { Prisma, ActorRole, Conflict, RevisionAction } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { conflictColumns, toConflictData } from '../models/conflictSchema';
+import { JWTPayload } from '../utils/jwt';
+import { requestAlertEvaluation } from './alerts';
+import { attachGeography } from './geography';
+
+type Tx = Prisma.TransactionClient;
+
+export type FieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+const TRACKED_FIELDS = Object.keys(conflictColumns);
+
+type ActorLink = { actorId: string; role: ActorRole; interaction: string | null };
+
+// A conflict and its actor links, which a revision snapshot records together
+type ConflictState = { conflict: Conflict; actors: ActorLink[] };
+
+const stateOf = async (tx: Tx, conflict: Conflict): Promise<ConflictState> => ({
+  conflict,
+  actors: await tx.conflictActor.findMany({
+    where: { conflictId: conflict.id },
+    select: { actorId: true, role: true, interaction: true },
+    orderBy: [{ actorId: 'asc' }, { role: 'asc' }],
+  }),
+});
+
+// JSON-safe copy of the tracked fields and the actor links, as stored in
+// revision snapshots. Actor links are edited outside the audited writes, so
+// they are restored from snapshots but left out of the field-level changes.
+const snapshotOf = ({ conflict, actors }: ConflictState): Record<string, unknown> => {
+  const snapshot: Record<string, unknown> = {};
+  for (const field of TRACKED_FIELDS) {
+    const value = (conflict as Record<string, any>)[field];
+    snapshot[field] = value instanceof Date ? value.toISOString() : value ?? null;
+  }
+  snapshot.actors = actors;
+  return snapshot;
+};
+
+/**
+ * Field-level differences between two states of a conflict. Either side may be
+ * null for a creation or deletion.
+ */
+export const diffSnapshots = (
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): FieldChanges => {
+  const changes: FieldChanges = {};
+
+  for (const field of TRACKED_FIELDS) {
+    const from = before ? before[field] ?? null : null;
+    const to = after ? after[field] ?? null : null;
+
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+};
+
+/*
+ * Serialise audited writes to one conflict: versions are numbered from the
+ * latest revision, and the before-state must not change underneath. An
+ * advisory lock, unlike a row lock, also covers a deleted conflict being
+ * recreated. Held until the transaction ends.
+ */
+export const lockConflict = (tx: Tx, conflictId: string) =>
+  tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${conflictId}))`;
+
+const recordRevision = async (
+  tx: Tx,
+  conflictId: string,
+  action: RevisionAction,
+  before: ConflictState | null,
+  after: ConflictState | null,
+  user?: JWTPayload
+) => {
+  const previous = await tx.conflictRevision.aggregate({
+    where: { conflictId },
+    _max: { version: true },
+  });
+
+  const beforeSnapshot = before ? snapshotOf(before) : null;
+  const afterSnapshot = after ? snapshotOf(after) : null;
+  let version = previous._max.version || 0;
+
+  // A conflict written before history was kept, e.g. seeded, gets its
+  // original state recorded first so it can still be restored
+  if (version === 0 && beforeSnapshot) {
+    version += 1;
+    await tx.conflictRevision.create({
+      data: {
+        conflictId,
+        version,
+        action: 'BASELINE',
+        changes: diffSnapshots(null, beforeSnapshot) as Prisma.InputJsonValue,
+        snapshot: beforeSnapshot as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  return tx.conflictRevision.create({
+    data: {
+      conflictId,
+      version: version + 1,
+      action,
+      userId: user?.userId,
+      userEmail: user?.email,
+      changes: diffSnapshots(beforeSnapshot, afterSnapshot) as Prisma.InputJsonValue,
+      snapshot: (afterSnapshot ?? Prisma.DbNull) as Prisma.InputJsonValue,
+    },
+  });
+};
+
+/*
+ * Audited writes. Each takes an optional transaction client so callers that
+ * already run inside a transaction (imports, merges) keep a single unit of work;
+ * those callers request alert evaluation themselves once they have committed.
+ */
+
+const audited = async <T>(run: (client: Tx) => Promise<T>, tx?: Tx): Promise<T> => {
+  if (tx) return run(tx);
+
+  const result = await prisma.$transaction(run);
+  requestAlertEvaluation();
+  return result;
+};
+
+export const createConflict = async (
+  data: Record<string, any>,
+  user?: JWTPayload,
+  tx?: Tx
+): Promise<Conflict> => audited(async (client) => {
+  if (data.id) await lockConflict(client, data.id);
+  const conflict = await client.conflict.create({ data: data as Prisma.ConflictUncheckedCreateInput });
+  await recordRevision(client, conflict.id, 'CREATE', null, await stateOf(client, conflict), user);
+  return conflict;
+}, tx);
+
+export const updateConflict = async (
+  id: string,
+  data: Record<string, any>,
+  user?: JWTPayload,
+  tx?: Tx,
+  action: RevisionAction = 'UPDATE'
+): Promise<Conflict> => audited(async (client) => {
+  await lockConflict(client, id);
+  const before = await stateOf(client, await client.conflict.findUniqueOrThrow({ where: { id } }));
+  const after = await client.conflict.update({ where: { id }, data });
+  await recordRevision(client, id, action, before, await stateOf(client, after), user);
+  return after;
+}, tx);
+
+export const deleteConflict = async (
+  id: string,
+  user?: JWTPayload,
+  tx?: Tx,
+  action: RevisionAction = 'DELETE'
+): Promise<void> => audited(async (client) => {
+  await lockConflict(client, id);
+  const before = await stateOf(client, await client.conflict.findUniqueOrThrow({ where: { id } }));
+  await client.conflict.delete({ where: { id } });
+  await recordRevision(client, id, action, before, null, user);
+}, tx);
+
+export class RevisionError extends Error {
+  statusCode = 400;
+  isOperational = true;
+}
+
+const GEOGRAPHY_LINKS = ['countryId', 'admin1Id', 'admin2Id', 'locationId'] as const;
+
+/*
+ * A snapshot's geography links may point at reference rows removed since it
+ * was taken. When any has gone, all four are resolved afresh from the
+ * country name and coordinates, and cleared if that finds nothing.
+ */
+const relinkGeography = async (tx: Tx, data: Record<string, any>) => {
+  const [country, admin1, admin2, location] = await Promise.all([
+    data.countryId ? tx.country.findUnique({ where: { id: data.countryId }, select: { id: true } }) : null,
+    data.admin1Id ? tx.admin1.findUnique({ where: { id: data.admin1Id }, select: { id: true } }) : null,
+    data.admin2Id ? tx.admin2.findUnique({ where: { id: data.admin2Id }, select: { id: true } }) : null,
+    data.locationId ? tx.location.findUnique({ where: { id: data.locationId }, select: { id: true } }) : null,
+  ]);
+  const found = { countryId: country, admin1Id: admin1, admin2Id: admin2, locationId: location };
+
+  if (GEOGRAPHY_LINKS.every((link) => !data[link] || found[link])) return data;
+
+  const values = { ...data };
+  GEOGRAPHY_LINKS.forEach((link) => delete values[link]);
+
+  return {
+    countryId: null,
+    admin1Id: null,
+    admin2Id: null,
+    locationId: null,
+    ...await attachGeography(tx, values),
+  };
+};
+
+// The snapshot's actor links whose actors still exist; undefined for a snapshot taken before links were recorded
+const restorableLinks = async (tx: Tx, snapshot: Record<string, any>) => {
+  if (!Array.isArray(snapshot.actors)) return undefined;
+
+  const links = snapshot.actors as ActorLink[];
+  const actors = await tx.actor.findMany({
+    where: { id: { in: links.map((link) => link.actorId) } },
+    select: { id: true },
+  });
+  const existing = new Set(actors.map((actor) => actor.id));
+
+  return links
+    .filter((link) => existing.has(link.actorId))
+    .map(({ actorId, role, interaction }) => ({ actorId, role, interaction }));
+};
+
+/**
+ * Restore a conflict, with its actor links, to the state captured by one of
+ * its revisions. A deleted conflict is recreated under its original ID.
+ */
+export const revertConflict = async (
+  conflictId: string,
+  revisionId: string,
+  user?: JWTPayload
+): Promise<Conflict> => {
+  const revision = await prisma.conflictRevision.findUnique({ where: { id: revisionId } });
+
+  if (!revision || revision.conflictId !== conflictId) {
+    throw new RevisionError('Revision not found for this conflict');
+  }
+
+  if (!revision.snapshot) {
+    throw new RevisionError('Cannot revert to a deletion; choose an earlier revision');
+  }
+
+  return audited(async (tx) => {
+    await lockConflict(tx, conflictId);
+    const snapshot = revision.snapshot as Record<string, any>;
+    const data = await relinkGeography(tx, toConflictData(snapshot));
+    const actors = await restorableLinks(tx, snapshot);
+    const current = await tx.conflict.findUnique({ where: { id: conflictId } });
+
+    if (current) {
+      return updateConflict(conflictId, {
+        ...data,
+        ...(actors && { actors: { deleteMany: {}, create: actors } }),
+      }, user, tx, 'REVERT');
+    }
+
+    const restored = await tx.conflict.create({
+      data: {
+        ...data,
+        id: conflictId,
+        ...(actors && { actors: { create: actors } }),
+      } as Prisma.ConflictUncheckedCreateInput,
+    });
+    await recordRevision(tx, conflictId, 'REVERT', null, await stateOf(tx, restored), user);
+    return restored;
+  });
+};
@@ -0,0 +1,283 @@
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { parseCsvRecords } from '../utils/csv';
+import { conflictRecordBody, toConflictData } from '../models/conflictSchema';
+import { JWTPayload } from '../utils/jwt';
+import { createConflict, updateConflict } from './conflictHistory';
+import { requestAlertEvaluation } from './alerts';
+import { resolveActorLinks, ActorLinkInput } from './actors';
+import { attachGeography, PlaceNames } from './geography';
+import { applyGeocoding } from './geocoding';
+import { loadEventTaxonomy, normalizeEventType } from './eventTypes';
+
+export type ImportAction = 'insert' | 'update' | 'reject';
+
+// Rows written per transaction, so a large upload never holds one long transaction open
+export const IMPORT_BATCH_SIZE = 100;
+
+export interface ImportRowResult {
+  row: number;
+  action: ImportAction;
+  id?: string;
+  errors?: string[];
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  summary: {
+    total: number;
+    inserted: number;
+    updated: number;
+    rejected: number;
+  };
+  rows: ImportRowResult[];
+}
+
+export interface ImportCandidate {
+  row: number;
+  id?: string;
+  values: Record<string, any>;
+  actors?: ActorLinkInput[];
+  places?: PlaceNames;
+  errors?: string[];
+}
+
+// Header names written by /api/conflicts/export (CSV, or the Excel sheet saved
+// as CSV), mapped onto Conflict fields. Other columns, e.g. timestamps, are ignored.
+const CSV_COLUMNS: Record<string, string> = {
+  'id': 'id',
+  'title': 'title',
+  'description': 'description',
+  'country': 'country',
+  'region': 'region',
+  'event type': 'eventType',
+  'sub event type': 'subEventType',
+  'date': 'date',
+  'fatalities': 'fatalities',
+  'fatalities min': 'fatalitiesMin',
+  'fatalities max': 'fatalitiesMax',
+  'date precision': 'datePrecision',
+  'location precision': 'locationPrecision',
+  'latitude': 'latitude',
+  'longitude': 'longitude',
+  'source': 'source',
+  'external id': 'externalId',
+};
+
+// Blank cells in these columns mean "not known" rather than "not supplied"
+const NULLABLE_FIELDS = ['description', 'subEventType', 'fatalities', 'fatalitiesMin', 'fatalitiesMax', 'datePrecision', 'locationPrecision'];
+
+// Country and region can be derived from the coordinates
+const REQUIRED_COLUMNS = ['title', 'eventType', 'date', 'latitude', 'longitude'];
+
+export class ImportFormatError extends Error {
+  statusCode = 400;
+  isOperational = true;
+}
+
+/**
+ * Turn the export CSV layout into import candidates. Row numbers are the
+ * line of the file each record starts on, so the header is normally row 1.
+ */
+export const parseConflictCsv = (text: string): ImportCandidate[] => {
+  const [headerRecord, ...records] = parseCsvRecords(text);
+  const header = headerRecord?.fields;
+
+  if (!header) {
+    throw new ImportFormatError('CSV file is empty');
+  }
+
+  const fields = header.map((name) => CSV_COLUMNS[name.trim().toLowerCase()]);
+  const missing = REQUIRED_COLUMNS.filter((field) => !fields.includes(field));
+
+  if (missing.length > 0) {
+    throw new ImportFormatError(`CSV is missing required columns: ${missing.join(', ')}`);
+  }
+
+  return records.map(({ line, fields: record }) => {
+    const values: Record<string, any> = {};
+    let id: string | undefined;
+    const errors: string[] = [];
+
+    if (record.length !== header.length) {
+      errors.push(`Expected ${header.length} columns but found ${record.length}`);
+    }
+
+    fields.forEach((field, column) => {
+      if (!field) return;
+      const raw = (record[column] ?? '').trim();
+
+      if (field === 'id') {
+        id = raw || undefined;
+      } else if (raw !== '') {
+        values[field] = raw;
+      } else if (NULLABLE_FIELDS.includes(field)) {
+        values[field] = null;
+      }
+    });
+
+    return { row: line, id, values, errors };
+  });
+};
+
+/**
+ * Validate candidates against the Conflict model and the event type taxonomy
+ * and, unless this is a dry run, write the valid ones in transactions of
+ * IMPORT_BATCH_SIZE rows. A batch that fails is rolled back and its rows are
+ * reported as rejected; the batches before and after it are still written.
+ * Rows carrying the ID of an existing conflict, or the same source and external
+ * ID as one (or as a record merged into one), become updates; everything else
+ * is inserted.
+ */
+export const importConflicts = async (
+  candidates: ImportCandidate[],
+  { dryRun, user }: { dryRun: boolean; user?: JWTPayload }
+): Promise<ImportReport> => {
+  const ids = candidates.map((c) => c.id).filter((id): id is string => Boolean(id));
+  const externalIds = candidates
+    .map((c) => c.values.externalId)
+    .filter((id): id is string => Boolean(id));
+
+  const existing = ids.length > 0 || externalIds.length > 0
+    ? await prisma.conflict.findMany({
+      where: {
+        OR: [
+          { id: { in: ids } },
+          { externalId: { in: externalIds } },
+        ],
+      },
+      select: { id: true, source: true, externalId: true },
+    })
+    : [];
+  // Records merged away by deduplication still resolve to the conflict they were folded into
+  const merged = externalIds.length > 0
+    ? await prisma.conflictSource.findMany({
+      where: { externalId: { in: externalIds } },
+      select: { conflictId: true, source: true, externalId: true },
+    })
+    : [];
+
+  const existingIds = new Set(existing.map((c) => c.id));
+  const idsByExternalId = new Map(
+    [
+      ...merged.map((s) => ({ id: s.conflictId, source: s.source, externalId: s.externalId })),
+      ...existing,
+    ]
+      .filter((c) => c.externalId)
+      .map((c) => [`${c.source}:${c.externalId}`, c.id])
+  );
+
+  const resolveExistingId = (candidate: ImportCandidate, value: Record<string, any>) => {
+    if (candidate.id && existingIds.has(candidate.id)) return candidate.id;
+    if (value.externalId) {
+      return idsByExternalId.get(`${value.source || 'ACLED'}:${value.externalId}`);
+    }
+    return undefined;
+  };
+
+  const rows: ImportRowResult[] = [];
+  const writes: Array<{
+    result: ImportRowResult;
+    id?: string;
+    action: ImportAction;
+    data: Record<string, any>;
+    actors?: ActorLinkInput[];
+    places?: PlaceNames;
+  }> = [];
+  const seen = new Set<string>();
+  const taxonomy = await loadEventTaxonomy();
+
+  for (const candidate of candidates) {
+    const geocoded = applyGeocoding(candidate.values, candidate.places);
+    const { error, value } = conflictRecordBody.validate(geocoded.values, {
+      abortEarly: false,
+      convert: true,
+    });
+    const errors = [
+      ...(candidate.errors || []),
+      ...(error ? error.details.map((d) => d.message) : []),
+    ];
+
+    const taxonomyError = normalizeEventType(taxonomy, value);
+    if (taxonomyError) errors.push(taxonomyError);
+
+    const key = candidate.id || (value.externalId && `${value.source || 'ACLED'}:${value.externalId}`);
+    if (key && seen.has(key)) {
+      errors.push('Record appears more than once in this import');
+    } else if (key) {
+      seen.add(key);
+    }
+
+    if (errors.length > 0) {
+      rows.push({ row: candidate.row, action: 'reject', id: candidate.id, errors });
+      continue;
+    }
+
+    const existingId = resolveExistingId(candidate, value);
+    const action: ImportAction = existingId ? 'update' : 'insert';
+    const id = existingId || candidate.id;
+    const data = toConflictData(value);
+
+    // Matched on source identity: keep the target's own identity, which may
+    // differ when the row was merged into another record
+    if (existingId && existingId !== candidate.id) {
+      delete data.source;
+      delete data.externalId;
+    }
+
+    const result: ImportRowResult = { row: candidate.row, action, id };
+    rows.push(result);
+    writes.push({ result, id, action, data, actors: candidate.actors, places: geocoded.places });
+  }
+
+  let written = 0;
+
+  for (let start = 0; !dryRun && start < writes.length; start += IMPORT_BATCH_SIZE) {
+    const batch = writes.slice(start, start + IMPORT_BATCH_SIZE);
+
+    try {
+      await prisma.$transaction(async (tx) => {
+        for (const write of batch) {
+          await attachGeography(tx, write.data, write.places);
+
+          // Actor links replace the conflict's existing ones
+          const actors = write.actors && await resolveActorLinks(tx, write.actors);
+
+          if (write.action === 'update') {
+            await updateConflict(write.id!, {
+              ...write.data,
+              ...(actors && { actors: { deleteMany: {}, create: actors } }),
+            }, user, tx);
+          } else {
+            await createConflict({
+              ...write.data,
+              ...(write.id && { id: write.id }),
+              ...(actors && { actors: { create: actors } }),
+            }, user, tx);
+          }
+        }
+      }, { timeout: 30000 });
+      written += batch.length;
+    } catch (error) {
+      logger.error(`Import batch of rows ${batch[0].result.row}-${batch[batch.length - 1].result.row} failed: ${error instanceof Error ? error.message : error}`);
+      for (const { result } of batch) {
+        Object.assign(result, { action: 'reject', errors: ['Not written: the batch containing this row failed and was rolled back'] });
+      }
+    }
+  }
+
+  if (written > 0) {
+    requestAlertEvaluation();
+  }
+
+  return {
+    dryRun,
+    summary: {
+      total: rows.length,
+      inserted: rows.filter((r) => r.action === 'insert').length,
+      updated: rows.filter((r) => r.action === 'update').length,
+      rejected: rows.filter((r) => r.action === 'reject').length,
+    },
+    rows,
+  };
+};
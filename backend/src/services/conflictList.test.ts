@@ -0,0 +1,37 @@
+import { CursorError, decodeCursor, encodeCursor } from './conflictList';
+
+jest.mock('../utils/prisma', () => ({ prisma: {} }));
+
+const encodeRaw = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+describe('cursors', () => {
+  it('round-trip a position', () => {
+    const positions = [
+      { sortBy: 'date', sortOrder: 'desc', value: '2024-03-01T00:00:00.000Z', id: 'c1' },
+      { sortBy: 'fatalities', sortOrder: 'asc', value: 12, id: 'c2' },
+      { sortBy: 'fatalities', sortOrder: 'desc', value: null, id: 'c3' },
+      { sortBy: 'country', sortOrder: 'asc', value: 'Sudan', id: 'c4' },
+    ] as const;
+
+    positions.forEach((position) => expect(decodeCursor(encodeCursor(position))).toEqual(position));
+  });
+
+  it('are URL-safe', () => {
+    const cursor = encodeCursor({ sortBy: 'eventType', sortOrder: 'asc', value: '???>>>', id: 'x'.repeat(30) });
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+  });
+
+  it('reject text that is not an encoded position', () => {
+    expect(() => decodeCursor('not a cursor')).toThrow(CursorError);
+    expect(() => decodeCursor('')).toThrow(CursorError);
+    expect(() => decodeCursor(encodeRaw({ sortBy: 'date' }))).toThrow(CursorError);
+    expect(() => decodeCursor(encodeRaw(['date', 'desc', 'x']))).toThrow(CursorError);
+  });
+
+  it('reject unknown sorts and malformed values', () => {
+    expect(() => decodeCursor(encodeRaw(['title', 'asc', 'x', 'c1']))).toThrow(CursorError);
+    expect(() => decodeCursor(encodeRaw(['date', 'up', 'x', 'c1']))).toThrow(CursorError);
+    expect(() => decodeCursor(encodeRaw(['date', 'asc', 'x', 42]))).toThrow(CursorError);
+    expect(() => decodeCursor(encodeRaw(['date', 'asc', { $gt: 1 }, 'c1']))).toThrow(CursorError);
+  });
+});
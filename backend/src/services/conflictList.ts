@@ -0,0 +1,226 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { buildConflictFilter, sqlAnd } from './conflictFilters';
+import { countConflicts } from './conflictStats';
+import { highlightConflicts } from './conflictSearch';
+
+type SortField = 'date' | 'fatalities' | 'country' | 'eventType';
+type SortOrder = 'asc' | 'desc';
+
+const SORT_FIELDS: SortField[] = ['date', 'fatalities', 'country', 'eventType'];
+
+export class CursorError extends Error {
+  statusCode = 400;
+  isOperational = true;
+}
+
+/*
+ * Keyset pagination. A cursor records the sort and the (sort value, id) of the
+ * last row returned; the next page starts strictly after that position, so
+ * rows inserted meanwhile never shift or repeat what follows, unlike an offset.
+ */
+interface CursorPosition {
+  sortBy: SortField;
+  sortOrder: SortOrder;
+  value: string | number | null;
+  id: string;
+}
+
+export const encodeCursor = ({ sortBy, sortOrder, value, id }: CursorPosition) =>
+  Buffer.from(JSON.stringify([sortBy, sortOrder, value, id])).toString('base64url');
+
+export const decodeCursor = (cursor: string): CursorPosition => {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new CursorError('Invalid cursor');
+  }
+
+  if (!Array.isArray(decoded) || decoded.length !== 4) {
+    throw new CursorError('Invalid cursor');
+  }
+
+  const [sortBy, sortOrder, value, id] = decoded;
+  if (!SORT_FIELDS.includes(sortBy) || !['asc', 'desc'].includes(sortOrder) || typeof id !== 'string'
+    || !(value === null || typeof value === 'string' || typeof value === 'number')) {
+    throw new CursorError('Invalid cursor');
+  }
+
+  return { sortBy, sortOrder, value, id };
+};
+
+const sortValue = (conflict: Record<string, any>, sortBy: SortField) =>
+  sortBy === 'date' ? (conflict.date as Date).toISOString() : conflict[sortBy] ?? null;
+
+const SORT_COLUMNS: Record<SortField, Prisma.Sql> = {
+  date: Prisma.raw('c."date"'),
+  fatalities: Prisma.raw('c."fatalities"'),
+  country: Prisma.raw('c."country"'),
+  eventType: Prisma.raw('c."eventType"'),
+};
+
+// Fatalities is the one nullable sort field; its unknown values always sort last
+const orderSql = (sortBy: SortField, sortOrder: SortOrder): Prisma.Sql => {
+  const direction = Prisma.raw(sortOrder === 'asc' ? 'ASC' : 'DESC');
+  const nulls = sortBy === 'fatalities' ? Prisma.raw(' NULLS LAST') : Prisma.empty;
+
+  return Prisma.sql`${SORT_COLUMNS[sortBy]} ${direction}${nulls}, c."id" ${direction}`;
+};
+
+// Rows strictly after the cursor position in orderSql's order
+const afterCursor = ({ sortBy, sortOrder, value, id }: CursorPosition): Prisma.Sql => {
+  const column = SORT_COLUMNS[sortBy];
+  const beyond = Prisma.raw(sortOrder === 'asc' ? '>' : '<');
+
+  if (value === null) {
+    return Prisma.sql`${column} IS NULL AND c."id" ${beyond} ${id}`;
+  }
+
+  const boundary = sortBy === 'date' ? new Date(value) : value;
+  const after = Prisma.sql`(${column}, c."id") ${beyond} (${boundary}, ${id})`;
+
+  return sortBy === 'fatalities' ? Prisma.sql`(${after} OR ${column} IS NULL)` : after;
+};
+
+// Load the conflicts with these ids, in the order given
+const conflictsById = async (ids: string[], select?: Prisma.ConflictSelect) => {
+  const records: Record<string, any>[] = ids.length > 0
+    ? await prisma.conflict.findMany({ where: { id: { in: ids } }, select })
+    : [];
+  const byId = new Map(records.map((record) => [record.id as string, record]));
+
+  return ids.map((id) => byId.get(id)).filter((record): record is Record<string, any> => !!record);
+};
+
+/**
+ * Run a filtered, sorted and paginated conflict listing: the response of
+ * GET /api/conflicts. Also serves POST /api/conflicts/search and saved searches,
+ * which differ only in where the parameters come from.
+ *
+ * Pages by offset (page) by default, or by keyset when given a cursor; both
+ * return a nextCursor except under relevance sorting. Keyset pages skip the
+ * total count. Throws CursorError for a cursor that is malformed or was issued
+ * for a different sort. `scope` narrows the listing further, e.g. to the
+ * country a GraphQL query is nested under.
+ */
+export const listConflicts = async (
+  params: Record<string, any>,
+  polygon?: { type: string; coordinates: any },
+  scope?: Prisma.Sql
+) => {
+  const {
+    page = 1,
+    limit = 10,
+    q,
+    cursor,
+    fields,
+    sortBy = q ? 'relevance' : 'date',
+    sortOrder = 'desc'
+  } = params;
+
+  const take = Number(limit);
+  const requested: string[] | null = fields ? String(fields).split(',').map((field) => field.trim()) : null;
+
+  // id is always returned; the sort value is also needed to build the cursor
+  const select = requested
+    ? Object.fromEntries(
+      ['id', ...requested, ...(sortBy === 'relevance' ? [] : [sortBy])].map((field) => [field, true])
+    ) as Prisma.ConflictSelect
+    : undefined;
+
+  const filter = buildConflictFilter(params, polygon);
+  const where = scope ? sqlAnd([filter.where, scope]) : filter.where;
+  const rank = filter.rank ?? Prisma.sql`NULL`;
+  const ranks = new Map<string, number>();
+
+  // A page of ids, with each one's search rank when there is a query
+  const pageIds = async (condition: Prisma.Sql, order: Prisma.Sql, size: number, skip = 0) => {
+    const rows = await prisma.$queryRaw<Array<{ id: string; rank: number | null }>>`
+      SELECT c."id", ${rank}::float AS rank FROM conflicts c
+      WHERE ${condition}
+      ORDER BY ${order}
+      LIMIT ${size} OFFSET ${skip}
+    `;
+    rows.forEach((row) => {
+      if (row.rank !== null) ranks.set(row.id, row.rank);
+    });
+    return rows.map((row) => row.id);
+  };
+
+  let conflicts: Record<string, any>[];
+  let pagination: Record<string, any>;
+
+  if (cursor) {
+    if (sortBy === 'relevance') {
+      throw new CursorError('Cursor pagination is not available when sorting by relevance');
+    }
+
+    const position = decodeCursor(String(cursor));
+    if (position.sortBy !== sortBy || position.sortOrder !== sortOrder) {
+      throw new CursorError(`Cursor was issued for sortBy=${position.sortBy}&sortOrder=${position.sortOrder}`);
+    }
+
+    const ids = await pageIds(sqlAnd([where, afterCursor(position)]), orderSql(sortBy, sortOrder), take + 1);
+
+    const hasNext = ids.length > take;
+    conflicts = await conflictsById(ids.slice(0, take), select);
+
+    pagination = {
+      limit: take,
+      hasNext,
+      nextCursor: hasNext
+        ? encodeCursor({ sortBy, sortOrder, value: sortValue(conflicts[take - 1], sortBy), id: conflicts[take - 1].id })
+        : null,
+    };
+  } else {
+    const skip = (Number(page) - 1) * take;
+    const direction = Prisma.raw(sortOrder === 'asc' ? 'ASC' : 'DESC');
+    const order = sortBy === 'relevance'
+      ? Prisma.sql`${rank} ${direction}, c."id" ${direction}`
+      : orderSql(sortBy, sortOrder);
+
+    const [ids, counts] = await Promise.all([
+      pageIds(where, order, take, skip),
+      countConflicts(where),
+    ]);
+
+    conflicts = await conflictsById(ids, select);
+    const total = counts.events;
+
+    const totalPages = Math.ceil(total / take);
+    const hasNext = Number(page) < totalPages;
+    const last = conflicts[conflicts.length - 1];
+
+    pagination = {
+      page: Number(page),
+      limit: take,
+      total,
+      totalPages,
+      hasNext,
+      hasPrev: Number(page) > 1,
+      nextCursor: hasNext && sortBy !== 'relevance' && last
+        ? encodeCursor({ sortBy, sortOrder, value: sortValue(last, sortBy), id: last.id })
+        : null,
+    };
+  }
+
+  if (q) {
+    const highlights = await highlightConflicts(String(q), conflicts.map((conflict) => conflict.id));
+
+    conflicts = conflicts.map((conflict) => ({
+      ...conflict,
+      search: {
+        rank: ranks.get(conflict.id),
+        ...highlights.get(conflict.id),
+      },
+    }));
+  }
+
+  if (requested && sortBy !== 'relevance' && !requested.includes(sortBy)) {
+    // The sort value was selected only to build the cursor
+    conflicts = conflicts.map(({ [sortBy]: _sortValue, ...conflict }) => conflict);
+  }
+
+  return { conflicts, pagination };
+};
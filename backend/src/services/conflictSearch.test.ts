@@ -0,0 +1,18 @@
+import { markHighlight } from './conflictSearch';
+
+jest.mock('../utils/prisma', () => ({ prisma: {} }));
+
+describe('markHighlight', () => {
+  it('wraps the marked matches in <mark> tags', () => {
+    expect(markHighlight('Clashes in \uE000Khartoum\uE001')).toBe('Clashes in <mark>Khartoum</mark>');
+  });
+
+  it('escapes markup in the text around the matches', () => {
+    expect(markHighlight('<img src=x onerror="alert(1)"> \uE000attack\uE001 & more'))
+      .toBe('&lt;img src=x onerror=&quot;alert(1)&quot;&gt; <mark>attack</mark> &amp; more');
+  });
+
+  it('escapes markup inside a match', () => {
+    expect(markHighlight("\uE000<b>it's</b>\uE001")).toBe('<mark>&lt;b&gt;it&#39;s&lt;/b&gt;</mark>');
+  });
+});
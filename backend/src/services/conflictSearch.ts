@@ -0,0 +1,69 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+
+export interface TextHighlight {
+  title: string;
+  snippet: string | null;
+}
+
+// The document is the generated, GIN-indexed "searchVector" column (prisma/sql/conflict_search.sql):
+// title weighted A and description B, so a match in the headline ranks first
+const tsquery = (q: string) => Prisma.sql`websearch_to_tsquery('english', ${q})`;
+
+/**
+ * Condition on `conflicts c` for conflicts whose title or description match
+ * `q`. `q` uses web search syntax: quoted phrases, `or` and `-excluded` words.
+ */
+export const textMatches = (q: string): Prisma.Sql => Prisma.sql`c."searchVector" @@ ${tsquery(q)}`;
+
+/**
+ * Relevance of each conflict to `q`, higher first, for ordering the matches.
+ */
+export const textRank = (q: string): Prisma.Sql => Prisma.sql`ts_rank(c."searchVector", ${tsquery(q)})`;
+
+// ts_headline marks matches but does not escape the text around them, so it
+// marks them with private-use characters, removed from the text beforehand,
+// and the text is HTML-escaped before they become <mark> tags
+const MATCH_START = '\uE000';
+const MATCH_STOP = '\uE001';
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export const markHighlight = (headline: string): string => headline
+  .replace(/[&<>"']/g, (char) => HTML_ESCAPES[char])
+  .replace(new RegExp(MATCH_START, 'g'), '<mark>')
+  .replace(new RegExp(MATCH_STOP, 'g'), '</mark>');
+
+/**
+ * Highlighted title and description fragments for a page of matched conflicts,
+ * as HTML: the text is escaped and matched terms are wrapped in <mark> tags.
+ * Only the requested IDs are processed since ts_headline re-parses each document.
+ */
+export const highlightConflicts = async (q: string, ids: string[]): Promise<Map<string, TextHighlight>> => {
+  if (ids.length === 0) return new Map();
+
+  const markers = `${MATCH_START}${MATCH_STOP}`;
+  const selection = `StartSel=${MATCH_START}, StopSel=${MATCH_STOP}`;
+  const rows = await prisma.$queryRaw<Array<TextHighlight & { id: string }>>`
+    SELECT c."id",
+           ts_headline('english', translate(c."title", ${markers}, ''), query,
+             ${`${selection}, HighlightAll=true`}) AS title,
+           CASE WHEN c."description" IS NULL THEN NULL ELSE
+             ts_headline('english', translate(c."description", ${markers}, ''), query,
+               ${`${selection}, MaxFragments=2, MinWords=8, MaxWords=25, FragmentDelimiter=" … "`})
+           END AS snippet
+    FROM conflicts c, websearch_to_tsquery('english', ${q}) query
+    WHERE c."id" IN (${Prisma.join(ids)})
+  `;
+
+  return new Map(rows.map(({ id, title, snippet }) => [id, {
+    title: markHighlight(title),
+    snippet: snippet === null ? null : markHighlight(snippet),
+  }]));
+};
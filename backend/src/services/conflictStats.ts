@@ -0,0 +1,383 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { benjaminiHochberg, binomialUpperTail } from '../utils/stats';
+import { sqlAnd } from './conflictFilters';
+
+export interface FatalityRange {
+  low: number;
+  best: number;
+  high: number;
+  unknownCount: number;
+}
+
+export interface ConflictCounts {
+  events: number;
+  fatalities: number;
+}
+
+export type ConflictGroupField = 'region' | 'country' | 'eventType';
+
+const GROUP_COLUMNS: Record<ConflictGroupField, Prisma.Sql> = {
+  region: Prisma.raw('c."region"'),
+  country: Prisma.raw('c."country"'),
+  eventType: Prisma.raw('c."eventType"'),
+};
+
+/**
+ * Number of conflicts matching `where` (a condition on `conflicts c`, see
+ * buildConflictFilter) and the sum of their best fatality estimates.
+ */
+export const countConflicts = async (where: Prisma.Sql = Prisma.sql`TRUE`): Promise<ConflictCounts> => {
+  const [row] = await prisma.$queryRaw<ConflictCounts[]>`
+    SELECT COUNT(*)::int AS events, COALESCE(SUM(c."fatalities"), 0)::int AS fatalities
+    FROM conflicts c
+    WHERE ${where}
+  `;
+
+  return row;
+};
+
+/**
+ * Event counts and fatality sums of the conflicts matching `where` per
+ * region, country or event type, most events first.
+ */
+export const groupConflicts = async (
+  where: Prisma.Sql,
+  field: ConflictGroupField,
+  limit?: number
+): Promise<Array<ConflictCounts & { group: string }>> => prisma.$queryRaw`
+  SELECT ${GROUP_COLUMNS[field]} AS "group",
+         COUNT(*)::int AS events,
+         COALESCE(SUM(c."fatalities"), 0)::int AS fatalities
+  FROM conflicts c
+  WHERE ${where}
+  GROUP BY 1
+  ORDER BY events DESC, 1
+  ${limit === undefined ? Prisma.empty : Prisma.sql`LIMIT ${limit}`}
+`;
+
+/**
+ * Summed fatality estimates over the conflicts matching `where`. Where a
+ * conflict has no low or high bound its best estimate stands in for it, so
+ * low <= best <= high holds for the totals; conflicts with no best estimate
+ * are counted as unknown rather than as zero.
+ */
+export const fatalityRange = async (where: Prisma.Sql = Prisma.sql`TRUE`): Promise<FatalityRange> => {
+  const [row] = await prisma.$queryRaw<FatalityRange[]>`
+    SELECT COALESCE(SUM(COALESCE(c."fatalitiesMin", c."fatalities")), 0)::int AS low,
+           COALESCE(SUM(c."fatalities"), 0)::int AS best,
+           COALESCE(SUM(COALESCE(c."fatalitiesMax", c."fatalities")), 0)::int AS high,
+           (COUNT(*) FILTER (WHERE c."fatalities" IS NULL))::int AS "unknownCount"
+    FROM conflicts c
+    WHERE ${where}
+  `;
+
+  return row;
+};
+
+export const FATALITY_PERCENTILES = [50, 75, 90, 95, 99];
+
+/**
+ * Nearest-rank percentiles of the best fatality estimate over the conflicts
+ * matching `where`, ignoring those with unknown fatalities (percentile_disc
+ * is the nearest-rank definition). Returns null for every percentile when no
+ * conflict has a known count.
+ */
+export const fatalityPercentiles = async (
+  where: Prisma.Sql = Prisma.sql`TRUE`,
+  percentiles: number[] = FATALITY_PERCENTILES
+): Promise<Record<string, number | null>> => {
+  const fractions = Prisma.join(percentiles.map((percentile) => percentile / 100));
+  const [row] = await prisma.$queryRaw<Array<{ values: number[] | null }>>`
+    SELECT percentile_disc(ARRAY[${fractions}]::float8[]) WITHIN GROUP (ORDER BY c."fatalities") AS values
+    FROM conflicts c
+    WHERE ${where} AND c."fatalities" IS NOT NULL
+  `;
+
+  return Object.fromEntries(percentiles.map((percentile, i) => [`p${percentile}`, row.values?.[i] ?? null]));
+};
+
+export type TimeseriesInterval = 'day' | 'week' | 'month' | 'year';
+export type TimeseriesGroup = ConflictGroupField;
+
+export interface TimeseriesSeries {
+  group: string | null;
+  events: number[];
+  fatalities: number[];
+}
+
+export interface Timeseries {
+  interval: TimeseriesInterval;
+  groupBy: TimeseriesGroup | null;
+  periods: string[];
+  series: TimeseriesSeries[];
+}
+
+export const MAX_TIMESERIES_PERIODS = 5000;
+
+export class TimeseriesError extends Error {
+  statusCode = 400;
+  isOperational = true;
+}
+
+// Start of the UTC bucket containing `date`; weeks start on Monday (ISO 8601)
+const bucketStart = (date: Date, interval: TimeseriesInterval): Date => {
+  const [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()];
+
+  switch (interval) {
+    case 'year':
+      return new Date(Date.UTC(year, 0, 1));
+    case 'month':
+      return new Date(Date.UTC(year, month, 1));
+    case 'week':
+      return new Date(Date.UTC(year, month, day - ((date.getUTCDay() + 6) % 7)));
+    default:
+      return new Date(Date.UTC(year, month, day));
+  }
+};
+
+const nextBucket = (start: Date, interval: TimeseriesInterval): Date => {
+  const [year, month, day] = [start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()];
+
+  switch (interval) {
+    case 'year':
+      return new Date(Date.UTC(year + 1, 0, 1));
+    case 'month':
+      return new Date(Date.UTC(year, month + 1, 1));
+    case 'week':
+      return new Date(Date.UTC(year, month, day + 7));
+    default:
+      return new Date(Date.UTC(year, month, day + 1));
+  }
+};
+
+// "2023", "2023-04" or "2023-04-17" (the first day of the bucket for days and weeks)
+const periodLabel = (start: Date, interval: TimeseriesInterval): string => {
+  const iso = start.toISOString();
+  if (interval === 'year') return iso.slice(0, 4);
+  if (interval === 'month') return iso.slice(0, 7);
+  return iso.slice(0, 10);
+};
+
+/**
+ * Event counts and fatality sums per period for the conflicts matching
+ * `where`, optionally split into one series per region, country or event
+ * type. The database buckets the events with date_trunc (weeks start on
+ * Monday there too), so only one row per period and group is read. Periods run without gaps from `from` (or the earliest event) to `to`
+ * (or the latest event), so empty periods show up as zeros.
+ */
+export const conflictTimeseries = async (
+  where: Prisma.Sql,
+  {
+    interval,
+    groupBy,
+    from,
+    to,
+  }: { interval: TimeseriesInterval; groupBy?: TimeseriesGroup; from?: Date; to?: Date }
+): Promise<Timeseries> => {
+  // Rows outside the requested periods would be dropped below anyway
+  const range = [
+    ...(from ? [Prisma.sql`c."date" >= ${bucketStart(from, interval)}`] : []),
+    ...(to ? [Prisma.sql`c."date" < ${nextBucket(bucketStart(to, interval), interval)}`] : []),
+  ];
+  const rows = await prisma.$queryRaw<Array<{ period: Date; group: string | null; events: number; fatalities: number }>>`
+    SELECT date_trunc(${interval}, c."date") AS period,
+           ${groupBy ? GROUP_COLUMNS[groupBy] : Prisma.sql`NULL`} AS "group",
+           COUNT(*)::int AS events,
+           COALESCE(SUM(c."fatalities"), 0)::int AS fatalities
+    FROM conflicts c
+    WHERE ${sqlAnd([where, ...range])}
+    GROUP BY 1, 2
+  `;
+
+  const starts = rows.map((row) => row.period.getTime());
+  const first = from || (starts.length > 0 ? new Date(starts.reduce((a, b) => Math.min(a, b))) : undefined);
+  const last = to || (starts.length > 0 ? new Date(starts.reduce((a, b) => Math.max(a, b))) : undefined);
+
+  const periods: string[] = [];
+  if (first && last) {
+    for (let start = bucketStart(first, interval); start <= last; start = nextBucket(start, interval)) {
+      periods.push(periodLabel(start, interval));
+
+      if (periods.length > MAX_TIMESERIES_PERIODS) {
+        throw new TimeseriesError(
+          `More than ${MAX_TIMESERIES_PERIODS} periods requested; use a coarser interval or a narrower date range`
+        );
+      }
+    }
+  }
+
+  const index = new Map(periods.map((period, i) => [period, i]));
+  const series = new Map<string | null, TimeseriesSeries>();
+
+  const seriesFor = (group: string | null) => {
+    let entry = series.get(group);
+
+    if (!entry) {
+      entry = {
+        group,
+        events: new Array(periods.length).fill(0),
+        fatalities: new Array(periods.length).fill(0),
+      };
+      series.set(group, entry);
+    }
+
+    return entry;
+  };
+
+  // An ungrouped series is always present, even when nothing matched
+  if (!groupBy) seriesFor(null);
+
+  for (const row of rows) {
+    const position = index.get(periodLabel(row.period, interval));
+    if (position === undefined) continue;
+
+    const entry = seriesFor(row.group);
+
+    entry.events[position] += row.events;
+    entry.fatalities[position] += row.fatalities;
+  }
+
+  const total = (entry: TimeseriesSeries) => entry.events.reduce((sum, count) => sum + count, 0);
+
+  return {
+    interval,
+    groupBy: groupBy || null,
+    periods,
+    series: [...series.values()].sort((a, b) => total(b) - total(a)),
+  };
+};
+
+export interface DateWindow {
+  start: Date;
+  end: Date;
+}
+
+export interface Change {
+  current: number;
+  previous: number;
+  delta: number;
+  // null when the previous value is zero
+  percentChange: number | null;
+}
+
+export interface GroupComparison {
+  events: Change;
+  fatalities: Change;
+  // One-sided p-value for the rise in events, the same adjusted for the other
+  // groups tested alongside it (Benjamini–Hochberg), and whether that is below alpha
+  pValue: number;
+  adjustedPValue: number;
+  unusualIncrease: boolean;
+}
+
+const change = (current: number, previous: number): Change => ({
+  current,
+  previous,
+  delta: current - previous,
+  percentChange: previous === 0 ? null : Math.round(((current - previous) / previous) * 10000) / 100,
+});
+
+const windowDays = ({ start, end }: DateWindow) =>
+  Math.max((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000), 1);
+
+/**
+ * Compare event counts between two windows with the conditional binomial
+ * test for Poisson rates: given n events across both windows, the number in
+ * the current window is Binomial(n, share of the total time it covers) when
+ * the underlying rate has not changed.
+ */
+const compareCounts = (
+  current: { events: number; fatalities: number },
+  previous: { events: number; fatalities: number },
+  currentShare: number
+) => ({
+  events: change(current.events, previous.events),
+  fatalities: change(current.fatalities, previous.fatalities),
+  pValue: binomialUpperTail(current.events, current.events + previous.events, currentShare),
+  rising: current.events > (current.events + previous.events) * currentShare,
+});
+
+const round6 = (value: number) => Math.round(value * 1e6) / 1e6;
+
+/**
+ * Flag the unusual increases among tests run together, e.g. one per country.
+ * Testing every group at alpha would flag about alpha of the unchanged groups
+ * by chance, so the p-values are adjusted for the number of groups first.
+ */
+const flagIncreases = <T extends ReturnType<typeof compareCounts>>(tests: T[], alpha: number) => {
+  const adjusted = benjaminiHochberg(tests.map((test) => test.pValue));
+
+  return tests.map(({ rising, pValue, ...test }, i) => ({
+    ...test,
+    pValue: round6(pValue),
+    adjustedPValue: round6(adjusted[i]),
+    unusualIncrease: rising && adjusted[i] < alpha,
+  }));
+};
+
+/**
+ * Events and fatalities for the conflicts matching `where` in a current and
+ * a previous window, in total and per country and event type, built from
+ * groupBy aggregates over each window. Increases in the event rate that are
+ * unlikely under an unchanged rate are flagged, controlling the false
+ * discovery rate at alpha within byCountry and within byEventType.
+ */
+export const comparePeriods = async (
+  where: Prisma.Sql,
+  { current, previous, alpha = 0.05 }: { current: DateWindow; previous: DateWindow; alpha?: number }
+) => {
+  const inWindow = ({ start, end }: DateWindow) =>
+    Prisma.sql`(${where}) AND c."date" BETWEEN ${start} AND ${end}`;
+
+  const aggregateWindow = (window: DateWindow) => Promise.all([
+    countConflicts(inWindow(window)),
+    groupConflicts(inWindow(window), 'country'),
+    groupConflicts(inWindow(window), 'eventType'),
+  ]);
+
+  const [[currentTotals, currentByCountry, currentByType], [previousTotals, previousByCountry, previousByType]] =
+    await Promise.all([aggregateWindow(current), aggregateWindow(previous)]);
+
+  const currentShare = windowDays(current) / (windowDays(current) + windowDays(previous));
+
+  const compareGroups = (
+    key: 'country' | 'eventType',
+    currentRows: Array<ConflictCounts & { group: string }>,
+    previousRows: Array<ConflictCounts & { group: string }>
+  ) => {
+    const counts = new Map<string, { current: ConflictCounts; previous: ConflictCounts }>();
+    const entry = (group: string) => {
+      if (!counts.has(group)) {
+        counts.set(group, {
+          current: { events: 0, fatalities: 0 },
+          previous: { events: 0, fatalities: 0 },
+        });
+      }
+      return counts.get(group)!;
+    };
+
+    for (const { group, ...totals } of currentRows) {
+      entry(group).current = totals;
+    }
+    for (const { group, ...totals } of previousRows) {
+      entry(group).previous = totals;
+    }
+
+    const tests = [...counts.entries()].map(([group, { current: now, previous: before }]) => ({
+      [key]: group,
+      ...compareCounts(now, before, currentShare),
+    }));
+
+    return flagIncreases(tests, alpha).sort((a, b) => b.events.delta - a.events.delta);
+  };
+
+  return {
+    current,
+    previous,
+    alpha,
+    totals: flagIncreases([compareCounts(currentTotals, previousTotals, currentShare)], alpha)[0],
+    byCountry: compareGroups('country', currentByCountry, previousByCountry),
+    byEventType: compareGroups('eventType', currentByType, previousByType),
+  };
+};
@@ -0,0 +1,34 @@
+import { titleSimilarity } from './deduplication';
+
+jest.mock('../utils/prisma', () => ({ prisma: {} }));
+
+describe('titleSimilarity', () => {
+  it('is 1 for titles equal after normalising case and punctuation', () => {
+    expect(titleSimilarity('Clashes in Khartoum', 'clashes in khartoum')).toBe(1);
+    expect(titleSimilarity('Clashes in Khartoum!', 'Clashes, in Khartoum')).toBe(1);
+  });
+
+  it('is 0 for titles with no bigrams in common', () => {
+    expect(titleSimilarity('abc', 'xyz')).toBe(0);
+  });
+
+  it('is the Dice coefficient over character bigrams', () => {
+    // night: ni ig gh ht; nacht: na ac ch ht; one shared bigram of eight
+    expect(titleSimilarity('night', 'nacht')).toBeCloseTo(0.25, 12);
+  });
+
+  it('counts repeated bigrams only as often as they occur in both', () => {
+    // aaaa: aa aa aa; aa: aa
+    expect(titleSimilarity('aaaa', 'aa')).toBeCloseTo(0.5, 12);
+  });
+
+  it('is symmetric', () => {
+    const [a, b] = ['Armed clash near Goma', 'Clash near Goma airport'];
+    expect(titleSimilarity(a, b)).toBe(titleSimilarity(b, a));
+  });
+
+  it('treats titles too short for a bigram as equal only to each other', () => {
+    expect(titleSimilarity('', '!')).toBe(1);
+    expect(titleSimilarity('a', 'ab')).toBe(0);
+  });
+});
@@ -0,0 +1,233 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { EARTH_RADIUS_KM, KM_PER_DEGREE } from '../utils/geo';
+import { JWTPayload } from '../utils/jwt';
+import { deleteConflict, lockConflict } from './conflictHistory';
+import { sqlAnd } from './conflictFilters';
+import { requestAlertEvaluation } from './alerts';
+
+export interface DuplicateScanOptions {
+  maxDays: number;
+  maxDistanceKm: number;
+  minScore: number;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export const defaultScanOptions: DuplicateScanOptions = {
+  maxDays: 2,
+  maxDistanceKm: 25,
+  minScore: 0.6,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const bigrams = (value: string) => {
+  const normalized = value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+  const pairs: string[] = [];
+  for (let i = 0; i < normalized.length - 1; i++) {
+    pairs.push(normalized.slice(i, i + 2));
+  }
+  return pairs;
+};
+
+/**
+ * Sørensen–Dice coefficient over character bigrams, from 0 (nothing in
+ * common) to 1 (identical after normalising case and punctuation).
+ */
+export const titleSimilarity = (a: string, b: string): number => {
+  const left = bigrams(a);
+  const right = bigrams(b);
+
+  if (left.length === 0 || right.length === 0) {
+    return left.length === right.length ? 1 : 0;
+  }
+
+  const counts = new Map<string, number>();
+  for (const pair of left) counts.set(pair, (counts.get(pair) || 0) + 1);
+
+  let overlap = 0;
+  for (const pair of right) {
+    const count = counts.get(pair) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(pair, count - 1);
+    }
+  }
+
+  return (2 * overlap) / (left.length + right.length);
+};
+
+interface CandidatePair {
+  aId: string;
+  aTitle: string;
+  bId: string;
+  bTitle: string;
+  dayDifference: number;
+  distanceKm: number;
+}
+
+/**
+ * Compare every pair of conflicts in the same country that fall within
+ * `maxDays` of each other and store those close enough in space and wording
+ * as pending candidates. The database blocks the pairs on country, date and
+ * distance; only titles are compared here. Pairs already on record (including
+ * dismissed ones) are left untouched.
+ */
+export const scanForDuplicates = async (options: DuplicateScanOptions) => {
+  const { maxDays, maxDistanceKm, minScore, startDate, endDate } = options;
+
+  const where: Prisma.ConflictWhereInput = {};
+  if (startDate || endDate) {
+    where.date = {
+      ...(startDate && { gte: startDate }),
+      ...(endDate && { lte: endDate }),
+    };
+  }
+
+  const inRange = (alias: Prisma.Sql) => sqlAnd([
+    ...(startDate ? [Prisma.sql`${alias}."date" >= ${startDate}`] : []),
+    ...(endDate ? [Prisma.sql`${alias}."date" <= ${endDate}`] : []),
+  ]);
+  // Whole days, rounded as the score expects, so the window runs to half a day past maxDays
+  const windowSeconds = (maxDays + 0.5) * DAY_MS / 1000;
+
+  const [scanned, pairs] = await Promise.all([
+    prisma.conflict.count({ where }),
+    prisma.$queryRaw<CandidatePair[]>`
+      SELECT pair.* FROM (
+        SELECT a."id" AS "aId", a."title" AS "aTitle", b."id" AS "bId", b."title" AS "bTitle",
+               round(abs(extract(epoch FROM b."date" - a."date")) / 86400)::int AS "dayDifference",
+               2 * ${EARTH_RADIUS_KM} * asin(least(1, sqrt(
+                 power(sin(radians(b."latitude" - a."latitude") / 2), 2)
+                 + cos(radians(a."latitude")) * cos(radians(b."latitude"))
+                 * power(sin(radians(b."longitude" - a."longitude") / 2), 2)
+               ))) AS "distanceKm"
+        FROM conflicts a
+        JOIN conflicts b
+          ON b."country" = a."country"
+         AND b."id" > a."id"
+         AND b."date" > a."date" - make_interval(secs => ${windowSeconds})
+         AND b."date" < a."date" + make_interval(secs => ${windowSeconds})
+         AND abs(b."latitude" - a."latitude") <= ${maxDistanceKm / KM_PER_DEGREE}
+        WHERE ${inRange(Prisma.raw('a'))} AND ${inRange(Prisma.raw('b'))}
+      ) pair
+      WHERE pair."distanceKm" <= ${maxDistanceKm}
+    `,
+  ]);
+
+  const found: Prisma.DuplicateCandidateCreateManyInput[] = [];
+
+  for (const pair of pairs) {
+    const { dayDifference, distanceKm: distance } = pair;
+    const similarity = titleSimilarity(pair.aTitle, pair.bTitle);
+    const score =
+      0.4 * similarity +
+      0.3 * (1 - distance / maxDistanceKm) +
+      0.3 * (1 - dayDifference / (maxDays + 1));
+
+    if (score < minScore) continue;
+
+    // Pairs come in id order, as the unique constraint on repeats expects
+    found.push({
+      conflictAId: pair.aId,
+      conflictBId: pair.bId,
+      score: Math.round(score * 1000) / 1000,
+      dayDifference,
+      distanceKm: Math.round(distance * 100) / 100,
+      titleSimilarity: Math.round(similarity * 1000) / 1000,
+    });
+  }
+
+  const created = found.length > 0
+    ? await prisma.duplicateCandidate.createMany({ data: found, skipDuplicates: true })
+    : { count: 0 };
+
+  return {
+    scanned,
+    matched: found.length,
+    created: created.count,
+  };
+};
+
+export class MergeError extends Error {
+  statusCode = 400;
+  isOperational = true;
+}
+
+/**
+ * Fold `duplicateIds` into `primaryId`. Each duplicate is snapshotted into a
+ * ConflictSource row on the primary (as is the primary itself, the first time
+ * it takes part in a merge), its actor links move to the primary, and it is
+ * then deleted with a MERGE revision, so the merged record links back to every
+ * original source. The records are locked and read inside the transaction, so
+ * the snapshots are the state that is merged, not one an edit has since replaced.
+ */
+export const mergeConflicts = async (
+  primaryId: string,
+  duplicateIds: string[],
+  user?: JWTPayload
+) => {
+  // Locked in a fixed order, the audit lock first as every audited write takes it, so merges cannot deadlock
+  const ids = [primaryId, ...duplicateIds].sort();
+
+  const merged = await prisma.$transaction(async (tx) => {
+    for (const id of ids) {
+      await lockConflict(tx, id);
+    }
+    await tx.$queryRaw`SELECT c."id" FROM conflicts c WHERE c."id" IN (${Prisma.join(ids)}) ORDER BY c."id" FOR UPDATE`;
+    const records = await tx.conflict.findMany({ where: { id: { in: ids } } });
+
+    const primary = records.find((r) => r.id === primaryId);
+    if (!primary) throw new MergeError(`Conflict ${primaryId} not found`);
+
+    const missing = duplicateIds.filter((id) => !records.some((r) => r.id === id));
+    if (missing.length > 0) throw new MergeError(`Conflicts not found: ${missing.join(', ')}`);
+
+    const duplicates = records.filter((r) => r.id !== primaryId);
+
+    const primaryHasSelf = await tx.conflictSource.count({
+      where: { conflictId: primaryId, originalId: primaryId },
+    });
+
+    const snapshots = [...(primaryHasSelf ? [] : [primary]), ...duplicates];
+
+    await tx.conflictSource.createMany({
+      data: snapshots.map((record) => ({
+        conflictId: primaryId,
+        source: record.source,
+        externalId: record.externalId,
+        originalId: record.id,
+        snapshot: JSON.parse(JSON.stringify(record)),
+        mergedById: user?.userId,
+      })),
+    });
+
+    // Provenance already collected on the duplicates moves to the primary
+    await tx.conflictSource.updateMany({
+      where: { conflictId: { in: duplicateIds } },
+      data: { conflictId: primaryId },
+    });
+
+    // Actors move too, rather than going with the duplicates' cascade; links the primary already has are kept once
+    const actorLinks = await tx.conflictActor.findMany({ where: { conflictId: { in: duplicateIds } } });
+    if (actorLinks.length > 0) {
+      await tx.conflictActor.createMany({
+        data: actorLinks.map((link) => ({ ...link, conflictId: primaryId })),
+        skipDuplicates: true,
+      });
+    }
+
+    for (const id of duplicateIds) {
+      await deleteConflict(id, user, tx, 'MERGE');
+    }
+
+    return tx.conflict.findUnique({
+      where: { id: primaryId },
+      include: { sources: { orderBy: { mergedAt: 'asc' } } },
+    });
+  });
+
+  requestAlertEvaluation();
+  return merged;
+};
@@ -0,0 +1,140 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+export interface EventTypeDefinition {
+  name: string;
+  subEventTypes: string[];
+}
+
+// Event types and sub-event types from the ACLED codebook
+export const ACLED_EVENT_TYPES: EventTypeDefinition[] = [
+  {
+    name: 'Battles',
+    subEventTypes: [
+      'Armed clash',
+      'Government regains territory',
+      'Non-state actor overtakes territory',
+    ],
+  },
+  {
+    name: 'Explosions/Remote violence',
+    subEventTypes: [
+      'Chemical weapon',
+      'Air/drone strike',
+      'Suicide bomb',
+      'Shelling/artillery/missile attack',
+      'Remote explosive/landmine/IED',
+      'Grenade',
+    ],
+  },
+  {
+    name: 'Violence against civilians',
+    subEventTypes: [
+      'Sexual violence',
+      'Attack',
+      'Abduction/forced disappearance',
+    ],
+  },
+  {
+    name: 'Protests',
+    subEventTypes: [
+      'Peaceful protest',
+      'Protest with intervention',
+      'Excessive force against protesters',
+    ],
+  },
+  {
+    name: 'Riots',
+    subEventTypes: [
+      'Violent demonstration',
+      'Mob violence',
+    ],
+  },
+  {
+    name: 'Strategic developments',
+    subEventTypes: [
+      'Agreement',
+      'Arrests',
+      'Change to group/activity',
+      'Disrupted weapons use',
+      'Headquarters or base established',
+      'Looting/property destruction',
+      'Non-violent transfer of territory',
+      'Other',
+    ],
+  },
+];
+
+export const seedEventTypes = async (client: Client = prisma) => {
+  for (const definition of ACLED_EVENT_TYPES) {
+    const eventType = await client.eventType.upsert({
+      where: { name: definition.name },
+      create: { name: definition.name },
+      update: {},
+    });
+
+    for (const name of definition.subEventTypes) {
+      await client.subEventType.upsert({
+        where: { eventTypeId_name: { eventTypeId: eventType.id, name } },
+        create: { eventTypeId: eventType.id, name },
+        update: {},
+      });
+    }
+  }
+
+  return ACLED_EVENT_TYPES.length;
+};
+
+/**
+ * Event types keyed by lower-cased name, each with its sub-event types keyed
+ * the same way, so lookups are case-insensitive but return the stored spelling.
+ */
+export type EventTaxonomy = Map<string, { name: string; subEventTypes: Map<string, string> }>;
+
+export const loadEventTaxonomy = async (client: Client = prisma): Promise<EventTaxonomy> => {
+  const eventTypes = await client.eventType.findMany({
+    include: { subEventTypes: true },
+  });
+
+  return new Map(eventTypes.map((eventType) => [
+    eventType.name.toLowerCase(),
+    {
+      name: eventType.name,
+      subEventTypes: new Map(eventType.subEventTypes.map((sub) => [sub.name.toLowerCase(), sub.name])),
+    },
+  ]));
+};
+
+/**
+ * Check `values.eventType` and `values.subEventType` against the taxonomy and
+ * rewrite them in place to their canonical spelling. Returns an error message
+ * when either is unknown or the sub-event type belongs to another event type.
+ */
+export const normalizeEventType = (
+  taxonomy: EventTaxonomy,
+  values: { eventType?: string; subEventType?: string | null }
+): string | null => {
+  if (!values.eventType) return null;
+
+  const entry = taxonomy.get(values.eventType.toLowerCase());
+
+  if (!entry) {
+    return `Unknown event type "${values.eventType}"`;
+  }
+
+  values.eventType = entry.name;
+
+  if (!values.subEventType) return null;
+
+  const sub = entry.subEventTypes.get(values.subEventType.toLowerCase());
+
+  if (!sub) {
+    return `"${values.subEventType}" is not a sub-event type of "${entry.name}"`;
+  }
+
+  values.subEventType = sub;
+
+  return null;
+};
@@ -0,0 +1,230 @@
+import path from 'path';
+import { createWriteStream } from 'fs';
+import { mkdir, rm, stat } from 'fs/promises';
+import { finished } from 'stream/promises';
+import { ExportJob, Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { buildConflictFilter } from './conflictFilters';
+import { conflictExporters, ExportFormat } from './conflictExport';
+import { countConflicts } from './conflictStats';
+
+export const EXPORT_DIR = path.resolve(process.env.EXPORT_DIR || 'exports');
+
+const RETENTION_HOURS = Number(process.env.EXPORT_RETENTION_HOURS || 24);
+const POLL_INTERVAL_MS = Number(process.env.EXPORT_POLL_INTERVAL_MS || 10000);
+
+// Progress is written at most this often, not after every batch
+const PROGRESS_INTERVAL_MS = 1000;
+
+// A running job's heartbeat is refreshed this often. One left RUNNING without a
+// heartbeat for EXPORT_STALE_AFTER_MS was cut off with its worker and is requeued.
+const HEARTBEAT_INTERVAL_MS = 30000;
+const STALE_AFTER_MS = Number(process.env.EXPORT_STALE_AFTER_MS || 5 * 60 * 1000);
+
+// Raised when a job's row disappears mid-run, i.e. the user deleted it
+class ExportCancelledError extends Error {}
+
+export const exportFilePath = (job: Pick<ExportJob, 'id' | 'format'>) =>
+  path.join(EXPORT_DIR, `${job.id}.${conflictExporters[job.format as ExportFormat].extension}`);
+
+/**
+ * Shape a job for the API: progress as a percentage, and the download link
+ * once the file is ready.
+ */
+export const toExportJobResponse = (job: ExportJob) => ({
+  ...job,
+  progress: job.status === 'COMPLETED'
+    ? 100
+    : job.total ? Math.min(99, Math.floor((job.processed / job.total) * 100)) : 0,
+  downloadUrl: job.status === 'COMPLETED' ? `/api/exports/${job.id}/download` : null,
+});
+
+const updateJob = async (id: string, data: Prisma.ExportJobUpdateManyMutationInput) => {
+  const { count } = await prisma.exportJob.updateMany({ where: { id }, data });
+  if (count === 0) {
+    throw new ExportCancelledError(`Export job ${id} was deleted`);
+  }
+};
+
+const runJob = async (job: ExportJob) => {
+  const exporter = conflictExporters[job.format as ExportFormat];
+  const { polygon, sortBy, sortOrder, ...filters } = job.filters as Record<string, any>;
+  const { where } = buildConflictFilter(filters, polygon);
+
+  const { events: total } = await countConflicts(where);
+  await updateJob(job.id, { total });
+
+  await mkdir(EXPORT_DIR, { recursive: true });
+  const filePath = exportFilePath(job);
+  const out = createWriteStream(filePath);
+
+  let processed = 0;
+  let lastUpdate = Date.now();
+
+  try {
+    await exporter.write(out, where, {
+      sortBy,
+      sortOrder,
+      filters: { ...filters, ...(polygon && { polygon }) },
+      onProgress: async (rows) => {
+        processed = rows;
+        if (Date.now() - lastUpdate < PROGRESS_INTERVAL_MS) return;
+        lastUpdate = Date.now();
+        await updateJob(job.id, { processed, heartbeatAt: new Date() });
+      },
+    });
+    out.end();
+    await finished(out);
+  } catch (error) {
+    out.destroy();
+    await rm(filePath, { force: true });
+    throw error;
+  }
+
+  const { size } = await stat(filePath);
+  const completedAt = new Date();
+
+  await updateJob(job.id, {
+    status: 'COMPLETED',
+    processed,
+    fileName: `conflicts-${job.createdAt.toISOString().split('T')[0]}.${exporter.extension}`,
+    fileSize: size,
+    completedAt,
+    expiresAt: new Date(completedAt.getTime() + RETENTION_HOURS * 60 * 60 * 1000),
+  }).catch(async (error) => {
+    await rm(filePath, { force: true });
+    throw error;
+  });
+};
+
+const processJob = async (job: ExportJob) => {
+  const heartbeat = setInterval(() => {
+    prisma.exportJob.updateMany({
+      where: { id: job.id, status: 'RUNNING' },
+      data: { heartbeatAt: new Date() },
+    }).catch((error) => logger.warn(`Export job ${job.id} heartbeat failed: ${error instanceof Error ? error.message : error}`));
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  try {
+    await runJob(job);
+    logger.info(`Export job ${job.id} completed`);
+  } catch (error) {
+    if (error instanceof ExportCancelledError) {
+      logger.info(error.message);
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    logger.error(`Export job ${job.id} failed: ${message}`);
+    await prisma.exportJob.updateMany({
+      where: { id: job.id },
+      data: { status: 'FAILED', error: message, completedAt: new Date() },
+    });
+  } finally {
+    clearInterval(heartbeat);
+  }
+};
+
+// Take the oldest queued job; the conditional update keeps two workers from claiming the same one
+const claimNextJob = async (): Promise<ExportJob | null> => {
+  const next = await prisma.exportJob.findFirst({
+    where: { status: 'QUEUED' },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  if (!next) return null;
+
+  const { count } = await prisma.exportJob.updateMany({
+    where: { id: next.id, status: 'QUEUED' },
+    data: { status: 'RUNNING', startedAt: new Date(), heartbeatAt: new Date(), processed: 0 },
+  });
+
+  return count === 1 ? next : claimNextJob();
+};
+
+/**
+ * Put jobs whose worker stopped sending heartbeats, because its process exited
+ * or crashed, back in the queue to run again from the start. Jobs other
+ * instances are still running keep fresh heartbeats and are left alone.
+ */
+const requeueStaleJobs = async (now: Date = new Date()) => {
+  const { count } = await prisma.exportJob.updateMany({
+    where: {
+      status: 'RUNNING',
+      OR: [
+        { heartbeatAt: null },
+        { heartbeatAt: { lt: new Date(now.getTime() - STALE_AFTER_MS) } },
+      ],
+    },
+    data: { status: 'QUEUED', processed: 0, startedAt: null, heartbeatAt: null },
+  });
+  if (count > 0) logger.info(`Requeued ${count} interrupted export job${count > 1 ? 's' : ''}`);
+};
+
+/**
+ * Delete the files of completed exports past their expiry and mark them
+ * expired. Returns the number of exports expired.
+ */
+export const expireExports = async (now: Date = new Date()) => {
+  const expired = await prisma.exportJob.findMany({
+    where: { status: 'COMPLETED', expiresAt: { lte: now } },
+  });
+
+  for (const job of expired) {
+    await rm(exportFilePath(job), { force: true });
+    await prisma.exportJob.update({
+      where: { id: job.id },
+      data: { status: 'EXPIRED' },
+    });
+  }
+
+  return expired.length;
+};
+
+/*
+ * Background worker. Jobs run one at a time, in order, picked up on a fixed
+ * interval and as soon as one is queued. State lives in the database, so
+ * queued jobs outlive a restart; timers are unref'd as in the alert evaluator.
+ */
+let running: Promise<unknown> | null = null;
+let rerun = false;
+
+const runQueue = () => {
+  if (running) {
+    rerun = true;
+    return;
+  }
+
+  running = (async () => {
+    await requeueStaleJobs();
+    await expireExports();
+
+    let job = await claimNextJob();
+    while (job) {
+      await processJob(job);
+      job = await claimNextJob();
+    }
+  })()
+    .catch((error) => logger.error(`Export processing failed: ${error instanceof Error ? error.message : error}`))
+    .finally(() => {
+      running = null;
+      if (rerun) {
+        rerun = false;
+        runQueue();
+      }
+    });
+};
+
+// Called after a job is queued so it starts without waiting for the next poll
+export const requestExportProcessing = () => runQueue();
+
+// Interrupted jobs, from this process' previous run or another instance, are requeued on each poll
+export const startExportWorker = async (intervalMs: number = POLL_INTERVAL_MS) => {
+  const timer = setInterval(runQueue, intervalMs);
+  timer.unref();
+  runQueue();
+
+  return timer;
+};
@@ -0,0 +1,202 @@
+import fs from 'fs';
+import path from 'path';
+import { feature } from '@rapideditor/country-coder';
+import { prisma } from '../utils/prisma';
+import { logger } from '../utils/logger';
+import { pointInGeometry, geometryBBox, BBox } from '../utils/geo';
+import { countryReference, lookupCountryCode, PlaceNames } from './geography';
+
+/*
+ * Offline reverse geocoding. Countries come from the border data bundled with
+ * country-coder; administrative units come from GeoJSON boundary files (for
+ * example geoBoundaries ADM1/ADM2 releases) placed in GEO_BOUNDARIES_DIR.
+ */
+
+const BOUNDARIES_DIR = process.env.GEO_BOUNDARIES_DIR || path.join(process.cwd(), 'data', 'boundaries');
+
+interface AdminBoundary {
+  iso3: string;
+  level: 1 | 2;
+  name: string;
+  bbox: BBox;
+  geometry: { type: string; coordinates: any };
+}
+
+export interface GeocodeResult {
+  iso3: string;
+  country: string;
+  subregion: string | null;
+  admin1: string | null;
+  admin2: string | null;
+}
+
+let boundaries: AdminBoundary[] | null = null;
+
+const parseLevel = (value: unknown): 1 | 2 | null => {
+  const match = /([12])$/.exec(String(value ?? ''));
+  return match ? (Number(match[1]) as 1 | 2) : null;
+};
+
+/**
+ * Read every .geojson file in the boundaries directory once. Features need a
+ * country code (shapeGroup or iso3), a level (shapeType "ADM1"/"ADM2" or
+ * level 1/2) and a name (shapeName or name).
+ */
+const loadBoundaries = (): AdminBoundary[] => {
+  if (boundaries) return boundaries;
+  boundaries = [];
+
+  if (!fs.existsSync(BOUNDARIES_DIR)) return boundaries;
+
+  const files = fs.readdirSync(BOUNDARIES_DIR).filter((file) => /\.(geo)?json$/i.test(file));
+
+  for (const file of files) {
+    try {
+      const collection = JSON.parse(fs.readFileSync(path.join(BOUNDARIES_DIR, file), 'utf8'));
+
+      for (const item of collection.features || []) {
+        const props = item.properties || {};
+        const level = parseLevel(props.shapeType ?? props.level);
+        const iso3 = String(props.shapeGroup ?? props.iso3 ?? '').toUpperCase();
+        const name = props.shapeName ?? props.name;
+        const geometry = item.geometry;
+
+        if (!level || !iso3 || !name || !geometry || !['Polygon', 'MultiPolygon'].includes(geometry.type)) {
+          continue;
+        }
+
+        boundaries.push({ iso3, level, name: String(name), bbox: geometryBBox(geometry), geometry });
+      }
+    } catch (error) {
+      logger.warn(`Skipping boundary file ${file}: ${(error as Error).message}`);
+    }
+  }
+
+  logger.info(`Loaded ${boundaries.length} administrative boundaries from ${BOUNDARIES_DIR}`);
+  return boundaries;
+};
+
+const inBBox = (lon: number, lat: number, [minLon, minLat, maxLon, maxLat]: BBox) =>
+  lon >= minLon && lon <= maxLon && lat >= minLat && lat <= maxLat;
+
+/**
+ * Country and, where boundary files are available, admin units containing a
+ * point. Returns null for points outside every country (e.g. open sea).
+ */
+export const reverseGeocode = (latitude: number, longitude: number): GeocodeResult | null => {
+  const iso3 = feature([longitude, latitude])?.properties.iso1A3;
+  if (!iso3) return null;
+
+  const country = countryReference().find((c) => c.iso3 === iso3);
+  if (!country) return null;
+
+  const containing = loadBoundaries().filter((b) =>
+    b.iso3 === iso3 &&
+    inBBox(longitude, latitude, b.bbox) &&
+    pointInGeometry(longitude, latitude, b.geometry)
+  );
+
+  return {
+    iso3,
+    country: country.name,
+    subregion: country.subregion,
+    admin1: containing.find((b) => b.level === 1)?.name || null,
+    admin2: containing.find((b) => b.level === 2)?.name || null,
+  };
+};
+
+/**
+ * Whether the stated country contains the point. Null when either side
+ * cannot be resolved, so unknown countries are not reported as mismatches.
+ */
+export const countryContainsPoint = (country: string, latitude: number, longitude: number): boolean | null => {
+  const stated = lookupCountryCode(country);
+  const actual = feature([longitude, latitude])?.properties.iso1A3;
+
+  if (!stated || !actual) return null;
+  return stated === actual;
+};
+
+/**
+ * Complete conflict write values from their coordinates: a missing country,
+ * region or admin units are derived from the point, and `locationMismatch` is
+ * set when the stated country does not contain it. Values without usable
+ * coordinates are returned unchanged.
+ */
+export const applyGeocoding = (
+  values: Record<string, any>,
+  places?: PlaceNames
+): { values: Record<string, any>; places?: PlaceNames } => {
+  const latitude = Number(values.latitude);
+  const longitude = Number(values.longitude);
+
+  if (values.latitude == null || values.longitude == null || !Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    return { values, places };
+  }
+
+  const point = reverseGeocode(latitude, longitude);
+  if (!point) return { values, places };
+
+  const derived = { ...values };
+  let derivedPlaces = places;
+
+  if (!derived.country) derived.country = point.country;
+  if (!derived.region && point.subregion) derived.region = point.subregion;
+
+  const contains = countryContainsPoint(derived.country, latitude, longitude);
+  derived.locationMismatch = contains === false;
+
+  // Admin units only follow the point when it lies in the stated country
+  if (!derivedPlaces && contains && (point.admin1 || point.admin2)) {
+    derivedPlaces = { admin1: point.admin1, admin2: point.admin1 ? point.admin2 : null, location: null };
+  }
+
+  return { values: derived, places: derivedPlaces };
+};
+
+const CHECK_BATCH_SIZE = 1000;
+
+/**
+ * Re-run the country consistency check over every stored conflict and update
+ * the `locationMismatch` flags that changed.
+ */
+export const checkLocationConsistency = async () => {
+  let cursor: string | undefined;
+  let checked = 0;
+  let mismatches = 0;
+  let updated = 0;
+
+  for (;;) {
+    const batch = await prisma.conflict.findMany({
+      select: { id: true, country: true, latitude: true, longitude: true, locationMismatch: true },
+      orderBy: { id: 'asc' },
+      take: CHECK_BATCH_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+    });
+
+    if (batch.length === 0) break;
+
+    const flagged: string[] = [];
+    const cleared: string[] = [];
+
+    for (const conflict of batch) {
+      const mismatch = countryContainsPoint(conflict.country, conflict.latitude, conflict.longitude) === false;
+      if (mismatch) mismatches++;
+      if (mismatch && !conflict.locationMismatch) flagged.push(conflict.id);
+      if (!mismatch && conflict.locationMismatch) cleared.push(conflict.id);
+    }
+
+    if (flagged.length > 0) {
+      await prisma.conflict.updateMany({ where: { id: { in: flagged } }, data: { locationMismatch: true } });
+    }
+    if (cleared.length > 0) {
+      await prisma.conflict.updateMany({ where: { id: { in: cleared } }, data: { locationMismatch: false } });
+    }
+
+    checked += batch.length;
+    updated += flagged.length + cleared.length;
+    cursor = batch[batch.length - 1]!.id;
+  }
+
+  return { checked, mismatches, updated };
+};
@@ -0,0 +1,222 @@
+import { Prisma } from '@prisma/client';
+import { borders, feature } from '@rapideditor/country-coder';
+import { prisma } from '../utils/prisma';
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+export interface PlaceNames {
+  admin1?: string | null;
+  admin2?: string | null;
+  location?: string | null;
+}
+
+export interface CountryReference {
+  name: string;
+  iso2: string | null;
+  iso3: string;
+  subregion: string | null;
+}
+
+/**
+ * ISO 3166-1 countries and territories from the boundary data bundled with
+ * country-coder, each tagged with its most specific UN M49 region (e.g.
+ * "Western Africa" rather than "Sub-Saharan Africa").
+ */
+let referenceCache: CountryReference[] | null = null;
+
+export const countryReference = (): CountryReference[] => {
+  if (!referenceCache) {
+    referenceCache = borders.features
+      .filter((f) => f.properties.iso1A3 && ['country', 'territory'].includes(f.properties.level))
+      .map((f) => {
+        const groups = (f.properties.groups || []).map((group) => feature(group));
+        const subregion =
+          groups.find((g) => g?.properties.level === 'intermediateRegion') ||
+          groups.find((g) => g?.properties.level === 'subregion');
+
+        return {
+          name: f.properties.nameEn,
+          iso2: f.properties.iso1A2 || null,
+          iso3: f.properties.iso1A3!,
+          subregion: subregion?.properties.nameEn || null,
+        };
+      });
+  }
+
+  return referenceCache;
+};
+
+export const seedCountries = async (client: Client = prisma) => {
+  const countries = countryReference();
+
+  for (const country of countries) {
+    await client.country.upsert({
+      where: { iso3: country.iso3 },
+      create: country,
+      update: { name: country.name, iso2: country.iso2, subregion: country.subregion },
+    });
+  }
+
+  return countries.length;
+};
+
+// Spellings used by ACLED and other sources that differ from the reference names
+const COUNTRY_ALIASES: Record<string, string> = {
+  'democratic republic of congo': 'COD',
+  'dr congo': 'COD',
+  'republic of congo': 'COG',
+  'ivory coast': 'CIV',
+  'czech republic': 'CZE',
+  'timor-leste': 'TLS',
+  'swaziland': 'SWZ',
+  'burma': 'MMR',
+  'turkiye': 'TUR',
+  'türkiye': 'TUR',
+  'cabo verde': 'CPV',
+  'macedonia': 'MKD',
+  'russian federation': 'RUS',
+  'syrian arab republic': 'SYR',
+  'united states of america': 'USA',
+  'united kingdom of great britain and northern ireland': 'GBR',
+};
+
+let countryCodeIndex: Map<string, string> | null = null;
+
+/**
+ * ISO alpha-3 code for a country name, ISO code or known alias, resolved
+ * against the bundled reference data without touching the database.
+ */
+export const lookupCountryCode = (query: string): string | null => {
+  if (!countryCodeIndex) {
+    countryCodeIndex = new Map(Object.entries(COUNTRY_ALIASES));
+    for (const country of countryReference()) {
+      countryCodeIndex.set(country.name.toLowerCase(), country.iso3);
+      countryCodeIndex.set(country.iso3.toLowerCase(), country.iso3);
+      if (country.iso2) countryCodeIndex.set(country.iso2.toLowerCase(), country.iso3);
+    }
+  }
+
+  return countryCodeIndex.get(query.trim().toLowerCase()) || null;
+};
+
+// Accepts an ISO alpha-2 or alpha-3 code or a country name (case-insensitive, with common aliases)
+export const findCountry = async (client: Client, query: string) => {
+  const value = query.trim();
+
+  if (/^[A-Za-z]{2,3}$/.test(value)) {
+    const code = value.toUpperCase();
+    return client.country.findFirst({
+      where: code.length === 2 ? { iso2: code } : { iso3: code },
+    });
+  }
+
+  const byName = await client.country.findFirst({
+    where: { name: { equals: value, mode: 'insensitive' } },
+  });
+  if (byName) return byName;
+
+  const alias = COUNTRY_ALIASES[value.toLowerCase()];
+  return alias ? client.country.findUnique({ where: { iso3: alias } }) : null;
+};
+
+/**
+ * Resolve a country name and optional admin unit and location names to
+ * reference-table IDs. Admin units and locations are created under the
+ * country on first sight; the country itself must already be in the
+ * reference table, otherwise every ID comes back null.
+ */
+export const resolveGeography = async (
+  client: Client,
+  country: string,
+  places: PlaceNames = {},
+  coordinates?: { latitude: number; longitude: number }
+) => {
+  const ids = {
+    countryId: null as string | null,
+    admin1Id: null as string | null,
+    admin2Id: null as string | null,
+    locationId: null as string | null,
+  };
+
+  const countryRecord = await findCountry(client, country);
+  if (!countryRecord) return ids;
+  ids.countryId = countryRecord.id;
+
+  if (places.admin1) {
+    const admin1 = await client.admin1.upsert({
+      where: { countryId_name: { countryId: countryRecord.id, name: places.admin1 } },
+      create: { countryId: countryRecord.id, name: places.admin1 },
+      update: {},
+    });
+    ids.admin1Id = admin1.id;
+
+    if (places.admin2) {
+      const admin2 = await client.admin2.upsert({
+        where: { admin1Id_name: { admin1Id: admin1.id, name: places.admin2 } },
+        create: { admin1Id: admin1.id, name: places.admin2 },
+        update: {},
+      });
+      ids.admin2Id = admin2.id;
+    }
+  }
+
+  if (places.location) {
+    const scope = {
+      countryId: countryRecord.id,
+      admin1Id: ids.admin1Id,
+      admin2Id: ids.admin2Id,
+      name: places.location,
+    };
+    const location = await client.location.findFirst({ where: scope })
+      ?? await client.location.create({
+        data: { ...scope, latitude: coordinates?.latitude, longitude: coordinates?.longitude },
+      });
+    ids.locationId = location.id;
+  }
+
+  return ids;
+};
+
+/**
+ * Fill in the geography reference IDs of conflict write data from its country
+ * name and place names. Data without a country is returned untouched.
+ */
+export const attachGeography = async (
+  client: Client,
+  data: Record<string, any>,
+  places?: PlaceNames
+) => {
+  if (!data.country) return data;
+
+  const coordinates = data.latitude !== undefined && data.longitude !== undefined
+    ? { latitude: Number(data.latitude), longitude: Number(data.longitude) }
+    : undefined;
+
+  return Object.assign(data, await resolveGeography(client, data.country, places, coordinates));
+};
+
+/**
+ * Link conflicts that have no country reference yet to one, matching on the
+ * free-text country column. Returns the number of conflicts linked.
+ */
+export const backfillCountryLinks = async (client: Client = prisma) => {
+  const names = await client.conflict.groupBy({
+    by: ['country'],
+    where: { countryId: null },
+  });
+
+  let linked = 0;
+
+  for (const { country } of names) {
+    const record = await findCountry(client, country);
+    if (!record) continue;
+
+    const { count } = await client.conflict.updateMany({
+      where: { country, countryId: null },
+      data: { countryId: record.id },
+    });
+    linked += count;
+  }
+
+  return linked;
+};
@@ -0,0 +1,71 @@
+import { formatCsvField, formatCsvRow, parseCsv, parseCsvRecords } from './csv';
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('a,b,c\n1,2,3\n')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+
+  it('accepts CRLF row endings and a missing final line break', () => {
+    expect(parseCsv('a,b\r\n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('reads quoted fields with commas, doubled quotes and line breaks', () => {
+    expect(parseCsv('"Smith, J","say ""hi""","two\r\nlines"\r\n')).toEqual([
+      ['Smith, J', 'say "hi"', 'two\r\nlines'],
+    ]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseCsv(',x,\n')).toEqual([['', 'x', '']]);
+  });
+
+  it('drops blank lines and a leading byte order mark', () => {
+    expect(parseCsv('\uFEFFa\n\n1\n\n')).toEqual([['a'], ['1']]);
+  });
+
+  it('returns no rows for empty input', () => {
+    expect(parseCsv('')).toEqual([]);
+  });
+});
+
+describe('parseCsvRecords', () => {
+  it('numbers each record by the line it starts on', () => {
+    expect(parseCsvRecords('a,b\n\n1,2\r\n\r\n3,4')).toEqual([
+      { line: 1, fields: ['a', 'b'] },
+      { line: 3, fields: ['1', '2'] },
+      { line: 5, fields: ['3', '4'] },
+    ]);
+  });
+
+  it('counts the line breaks inside quoted fields', () => {
+    expect(parseCsvRecords('a\n"two\r\nlines"\n"three\nmore\nlines"\nb').map((record) => record.line))
+      .toEqual([1, 2, 4, 7]);
+  });
+});
+
+describe('formatCsvField', () => {
+  it('leaves plain values unquoted', () => {
+    expect(formatCsvField('Battles')).toBe('Battles');
+    expect(formatCsvField(12)).toBe('12');
+  });
+
+  it('writes null and undefined as empty fields', () => {
+    expect(formatCsvField(null)).toBe('');
+    expect(formatCsvField(undefined)).toBe('');
+  });
+
+  it('quotes fields with commas, quotes or line breaks and doubles embedded quotes', () => {
+    expect(formatCsvField('a,b')).toBe('"a,b"');
+    expect(formatCsvField('say "hi"')).toBe('"say ""hi"""');
+    expect(formatCsvField('two\nlines')).toBe('"two\nlines"');
+  });
+
+  it('writes dates as ISO 8601', () => {
+    expect(formatCsvField(new Date('2024-03-01T12:00:00Z'))).toBe('2024-03-01T12:00:00.000Z');
+  });
+
+  it('round-trips through parseCsv', () => {
+    const values = ['plain', 'with, comma', 'with "quotes"', 'multi\r\nline', ''];
+    expect(parseCsv(formatCsvRow(values))).toEqual([values]);
+  });
+});
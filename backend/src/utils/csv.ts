@@ -0,0 +1,83 @@
+export interface CsvRecord {
+  // 1-based line of the input the record starts on
+  line: number;
+  fields: string[];
+}
+
+/**
+ * Minimal RFC 4180 CSV parser. Handles quoted fields, escaped quotes,
+ * embedded line breaks and both LF and CRLF row endings. Each record keeps
+ * the line it starts on, so blank lines and multi-line fields do not shift
+ * the numbering reported back to the user.
+ */
+export const parseCsvRecords = (input: string): CsvRecord[] => {
+  const text = input.charCodeAt(0) === 0xfeff ? input.slice(1) : input;
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      records.push({ line: rowLine, fields: row });
+      row = [];
+      field = '';
+      rowLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    records.push({ line: rowLine, fields: row });
+  }
+
+  // Drop blank lines, which parse as a single empty field
+  return records.filter(({ fields }) => !(fields.length === 1 && fields[0] === ''));
+};
+
+export const parseCsv = (input: string): string[][] =>
+  parseCsvRecords(input).map((record) => record.fields);
+
+/**
+ * Format one field per RFC 4180: fields containing a comma, double quote or
+ * line break are quoted, with embedded quotes doubled.
+ */
+export const formatCsvField = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One CSV record, terminated with CRLF as RFC 4180 specifies
+export const formatCsvRow = (values: unknown[]): string =>
+  `${values.map(formatCsvField).join(',')}\r\n`;
@@ -0,0 +1,66 @@
+export const EARTH_RADIUS_KM = 6371;
+
+// Length of a degree of latitude, and of longitude at the equator
+export const KM_PER_DEGREE = 111.32;
+
+type Ring = number[][];
+
+// Ray casting test against one linear ring of [lon, lat] positions
+const insideRing = (lon: number, lat: number, ring: Ring): boolean => {
+  let inside = false;
+
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i] as [number, number];
+    const [xj, yj] = ring[j] as [number, number];
+
+    if ((yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+};
+
+const insidePolygon = (lon: number, lat: number, rings: Ring[]): boolean => {
+  const [outer, ...holes] = rings;
+  if (!outer || !insideRing(lon, lat, outer)) return false;
+  return !holes.some((hole) => insideRing(lon, lat, hole));
+};
+
+/**
+ * Whether a point lies inside a GeoJSON Polygon or MultiPolygon geometry.
+ */
+export const pointInGeometry = (
+  lon: number,
+  lat: number,
+  geometry: { type: string; coordinates: any }
+): boolean => {
+  if (geometry.type === 'Polygon') {
+    return insidePolygon(lon, lat, geometry.coordinates);
+  }
+
+  if (geometry.type === 'MultiPolygon') {
+    return (geometry.coordinates as Ring[][]).some((polygon) => insidePolygon(lon, lat, polygon));
+  }
+
+  return false;
+};
+
+export type BBox = [number, number, number, number];
+
+// [minLon, minLat, maxLon, maxLat] of a Polygon or MultiPolygon geometry
+export const geometryBBox = (geometry: { type: string; coordinates: any }): BBox => {
+  const polygons: Ring[][] = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  const bbox: BBox = [Infinity, Infinity, -Infinity, -Infinity];
+
+  for (const polygon of polygons) {
+    for (const [lon, lat] of polygon[0] || []) {
+      bbox[0] = Math.min(bbox[0], lon as number);
+      bbox[1] = Math.min(bbox[1], lat as number);
+      bbox[2] = Math.max(bbox[2], lon as number);
+      bbox[3] = Math.max(bbox[3], lat as number);
+    }
+  }
+
+  return bbox;
+};
@@ -0,0 +1,153 @@
+import Database from 'better-sqlite3';
+
+/**
+ * Minimal OGC GeoPackage (1.3) writer for a single point feature table in
+ * WGS 84, which is all the conflict export needs. See
+ * https://www.geopackage.org/spec130/ for the required tables and the
+ * geometry blob layout.
+ */
+
+export type GeoPackageColumnType = 'TEXT' | 'INTEGER' | 'REAL' | 'BOOLEAN' | 'DATE' | 'DATETIME';
+
+export interface GeoPackageColumn {
+  name: string;
+  type: GeoPackageColumnType;
+}
+
+export interface GeoPackageFeature {
+  longitude: number;
+  latitude: number;
+  properties: Record<string, string | number | null>;
+}
+
+export interface GeoPackageWriter {
+  addFeatures(features: GeoPackageFeature[]): void;
+  close(): void;
+}
+
+const WGS84 = 4326;
+const APPLICATION_ID = 0x47504b47; // "GPKG"
+const USER_VERSION = 10300;
+
+const WGS84_DEFINITION = 'GEOGCS["WGS 84",DATUM["WGS_1984",SPHEROID["WGS 84",6378137,298.257223563,'
+  + 'AUTHORITY["EPSG","7030"]],AUTHORITY["EPSG","6326"]],PRIMEM["Greenwich",0,AUTHORITY["EPSG","8901"]],'
+  + 'UNIT["degree",0.0174532925199433,AUTHORITY["EPSG","9122"]],AUTHORITY["EPSG","4326"]]';
+
+// GeoPackage binary header (no envelope, little endian) followed by a WKB point
+const pointBlob = (longitude: number, latitude: number) => {
+  const blob = Buffer.alloc(29);
+  blob.write('GP', 0, 'ascii');
+  blob.writeUInt8(0, 2); // version 1
+  blob.writeUInt8(0x01, 3); // flags: little endian, no envelope, not empty
+  blob.writeInt32LE(WGS84, 4);
+  blob.writeUInt8(1, 8); // WKB little endian
+  blob.writeUInt32LE(1, 9); // wkbPoint
+  blob.writeDoubleLE(longitude, 13);
+  blob.writeDoubleLE(latitude, 21);
+  return blob;
+};
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+/**
+ * Create a GeoPackage file with one point feature table. Features are added
+ * in batches, each in its own transaction; close() records the extent and
+ * closes the file.
+ */
+export const createGeoPackage = (path: string, table: string, columns: GeoPackageColumn[], description = ''): GeoPackageWriter => {
+  const db = new Database(path);
+  db.pragma(`application_id = ${APPLICATION_ID}`);
+  db.pragma(`user_version = ${USER_VERSION}`);
+  db.pragma('journal_mode = OFF');
+
+  db.exec(`
+    CREATE TABLE gpkg_spatial_ref_sys (
+      srs_name TEXT NOT NULL,
+      srs_id INTEGER PRIMARY KEY,
+      organization TEXT NOT NULL,
+      organization_coordsys_id INTEGER NOT NULL,
+      definition TEXT NOT NULL,
+      description TEXT
+    );
+    CREATE TABLE gpkg_contents (
+      table_name TEXT NOT NULL PRIMARY KEY,
+      data_type TEXT NOT NULL,
+      identifier TEXT UNIQUE,
+      description TEXT DEFAULT '',
+      last_change DATETIME NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ','now')),
+      min_x DOUBLE, min_y DOUBLE, max_x DOUBLE, max_y DOUBLE,
+      srs_id INTEGER,
+      CONSTRAINT fk_gc_r_srs_id FOREIGN KEY (srs_id) REFERENCES gpkg_spatial_ref_sys(srs_id)
+    );
+    CREATE TABLE gpkg_geometry_columns (
+      table_name TEXT NOT NULL,
+      column_name TEXT NOT NULL,
+      geometry_type_name TEXT NOT NULL,
+      srs_id INTEGER NOT NULL,
+      z TINYINT NOT NULL,
+      m TINYINT NOT NULL,
+      CONSTRAINT pk_geom_cols PRIMARY KEY (table_name, column_name),
+      CONSTRAINT fk_gc_tn FOREIGN KEY (table_name) REFERENCES gpkg_contents(table_name),
+      CONSTRAINT fk_gc_srs FOREIGN KEY (srs_id) REFERENCES gpkg_spatial_ref_sys (srs_id)
+    );
+  `);
+
+  const insertSrs = db.prepare(`
+    INSERT INTO gpkg_spatial_ref_sys (srs_name, srs_id, organization, organization_coordsys_id, definition, description)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `);
+  insertSrs.run('Undefined cartesian SRS', -1, 'NONE', -1, 'undefined', 'undefined cartesian coordinate reference system');
+  insertSrs.run('Undefined geographic SRS', 0, 'NONE', 0, 'undefined', 'undefined geographic coordinate reference system');
+  insertSrs.run('WGS 84 geodetic', WGS84, 'EPSG', WGS84, WGS84_DEFINITION, 'longitude/latitude coordinates in decimal degrees on the WGS 84 spheroid');
+
+  const columnDefinitions = columns.map((column) => `${quoteIdentifier(column.name)} ${column.type}`);
+  db.exec(`
+    CREATE TABLE ${quoteIdentifier(table)} (
+      fid INTEGER PRIMARY KEY AUTOINCREMENT NOT NULL,
+      geom POINT,
+      ${columnDefinitions.join(',\n      ')}
+    )
+  `);
+
+  db.prepare(`INSERT INTO gpkg_contents (table_name, data_type, identifier, description, srs_id) VALUES (?, 'features', ?, ?, ?)`)
+    .run(table, table, description, WGS84);
+  db.prepare(`INSERT INTO gpkg_geometry_columns (table_name, column_name, geometry_type_name, srs_id, z, m) VALUES (?, 'geom', 'POINT', ?, 0, 0)`)
+    .run(table, WGS84);
+
+  const insertFeature = db.prepare(`
+    INSERT INTO ${quoteIdentifier(table)} (geom, ${columns.map((column) => quoteIdentifier(column.name)).join(', ')})
+    VALUES (?, ${columns.map(() => '?').join(', ')})
+  `);
+
+  const extent = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+
+  const addFeatures = db.transaction((features: GeoPackageFeature[]) => {
+    features.forEach((feature) => {
+      extent.minX = Math.min(extent.minX, feature.longitude);
+      extent.minY = Math.min(extent.minY, feature.latitude);
+      extent.maxX = Math.max(extent.maxX, feature.longitude);
+      extent.maxY = Math.max(extent.maxY, feature.latitude);
+
+      insertFeature.run(
+        pointBlob(feature.longitude, feature.latitude),
+        ...columns.map((column) => feature.properties[column.name] ?? null)
+      );
+    });
+  });
+
+  const close = () => {
+    try {
+      if (extent.minX <= extent.maxX) {
+        db.prepare(`
+          UPDATE gpkg_contents
+          SET min_x = ?, min_y = ?, max_x = ?, max_y = ?, last_change = strftime('%Y-%m-%dT%H:%M:%fZ','now')
+          WHERE table_name = ?
+        `).run(extent.minX, extent.minY, extent.maxX, extent.maxY, table);
+      }
+    } finally {
+      db.close();
+    }
+  };
+
+  return { addFeatures, close };
+};
@@ -0,0 +1,81 @@
+import dns from 'dns';
+import { BlockList, isIP, LookupFunction } from 'net';
+
+export class PrivateAddressError extends Error {
+  statusCode = 400;
+  isOperational = true;
+}
+
+// This host, private networks, link-local (including cloud metadata at 169.254.169.254) and other reserved ranges
+const reserved = new BlockList();
+
+([
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const).forEach(([network, prefix]) => reserved.addSubnet(network, prefix, 'ipv4'));
+
+([
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const).forEach(([network, prefix]) => reserved.addSubnet(network, prefix, 'ipv6'));
+
+/**
+ * Whether an IP address is publicly routable. IPv4-mapped IPv6 addresses are
+ * judged by the IPv4 address they carry.
+ */
+export const isPublicAddress = (address: string): boolean => {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  const ip = mapped ? mapped[1] : address;
+  const family = isIP(ip);
+
+  return family !== 0 && !reserved.check(ip, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Check that a host, an IP literal or a name, only resolves to public
+ * addresses. Throws PrivateAddressError otherwise, or when it cannot be resolved.
+ */
+export const assertPublicHost = async (hostname: string) => {
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: string[];
+
+  if (isIP(host)) {
+    addresses = [host];
+  } else {
+    try {
+      addresses = (await dns.promises.lookup(host, { all: true })).map((entry) => entry.address);
+    } catch {
+      throw new PrivateAddressError(`Could not resolve ${hostname}`);
+    }
+  }
+
+  if (addresses.some((address) => !isPublicAddress(address))) {
+    throw new PrivateAddressError(`${hostname} resolves to a private or reserved address`);
+  }
+};
+
+/**
+ * dns.lookup for outgoing requests that refuses non-public addresses. As the
+ * `lookup` option of http.request it checks the address actually connected
+ * to, so a DNS answer that changes after assertPublicHost cannot redirect the
+ * request. IP literals skip lookup, so check those with assertPublicHost.
+ */
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    const address = addresses.find((entry) => !isPublicAddress(entry.address));
+    if (address) {
+      callback(new PrivateAddressError(`${hostname} resolves to a private or reserved address`), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
@@ -0,0 +1,55 @@
+import { benjaminiHochberg, binomialUpperTail, logGamma } from './stats';
+
+// Exact P(X >= k) for small n, to check the log-space sum against
+const exactUpperTail = (k: number, n: number, p: number) => {
+  let tail = 0;
+  let choose = 1;
+  for (let i = 0; i <= n; i++) {
+    if (i >= k) tail += choose * p ** i * (1 - p) ** (n - i);
+    choose = (choose * (n - i)) / (i + 1);
+  }
+  return tail;
+};
+
+describe('logGamma', () => {
+  it('matches log factorials', () => {
+    expect(logGamma(1)).toBeCloseTo(0, 10);
+    expect(logGamma(5)).toBeCloseTo(Math.log(24), 10);
+    expect(logGamma(11)).toBeCloseTo(Math.log(3628800), 8);
+  });
+});
+
+describe('binomialUpperTail', () => {
+  it('matches the exact tail for small counts', () => {
+    expect(binomialUpperTail(7, 10, 0.5)).toBeCloseTo(exactUpperTail(7, 10, 0.5), 10);
+    expect(binomialUpperTail(3, 20, 0.1)).toBeCloseTo(exactUpperTail(3, 20, 0.1), 10);
+    expect(binomialUpperTail(10, 10, 0.5)).toBeCloseTo(1 / 1024, 12);
+  });
+
+  it('handles the edges', () => {
+    expect(binomialUpperTail(0, 10, 0.3)).toBe(1);
+    expect(binomialUpperTail(11, 10, 0.3)).toBe(0);
+    expect(binomialUpperTail(1, 10, 0)).toBe(0);
+    expect(binomialUpperTail(1, 10, 1)).toBe(1);
+  });
+
+  it('stays finite and within [0, 1] for large counts', () => {
+    const tail = binomialUpperTail(5600, 10000, 0.5);
+    expect(tail).toBeGreaterThan(0);
+    expect(tail).toBeLessThan(1e-20);
+    expect(binomialUpperTail(4000, 10000, 0.5)).toBeCloseTo(1, 10);
+  });
+});
+
+describe('benjaminiHochberg', () => {
+  it('adjusts p-values in their original order', () => {
+    const adjusted = benjaminiHochberg([0.01, 0.04, 0.03, 0.005]);
+    [0.02, 0.04, 0.04, 0.02].forEach((value, i) => expect(adjusted[i]).toBeCloseTo(value, 12));
+  });
+
+  it('caps adjusted values at 1 and leaves a single test unchanged', () => {
+    expect(benjaminiHochberg([0.9, 0.8])).toEqual([0.9, 0.9]);
+    expect(benjaminiHochberg([0.03])).toEqual([0.03]);
+    expect(benjaminiHochberg([])).toEqual([]);
+  });
+});
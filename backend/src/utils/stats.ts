@@ -0,0 +1,64 @@
+const LANCZOS = [
+  676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+/**
+ * Natural log of the gamma function (Lanczos approximation, g = 7).
+ */
+export const logGamma = (x: number): number => {
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * x))) - logGamma(1 - x);
+  }
+
+  const z = x - 1;
+  let sum = 0.99999999999980993;
+  LANCZOS.forEach((coefficient, i) => {
+    sum += coefficient / (z + i + 1);
+  });
+  const t = z + LANCZOS.length - 0.5;
+
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+};
+
+/**
+ * P(X >= k) for X ~ Binomial(n, p), summed in log space so large counts do
+ * not underflow.
+ */
+export const binomialUpperTail = (k: number, n: number, p: number): number => {
+  if (k <= 0) return 1;
+  if (k > n) return 0;
+  if (p <= 0) return 0;
+  if (p >= 1) return 1;
+
+  const logChooseN = logGamma(n + 1);
+  let tail = 0;
+
+  for (let i = k; i <= n; i++) {
+    tail += Math.exp(
+      logChooseN - logGamma(i + 1) - logGamma(n - i + 1) + i * Math.log(p) + (n - i) * Math.log(1 - p)
+    );
+  }
+
+  return Math.min(tail, 1);
+};
+
+/**
+ * Benjamini–Hochberg adjusted p-values, in the order given. Flagging the tests
+ * whose adjusted value is below alpha keeps the expected share of false
+ * positives among those flagged at most alpha, however many tests there are.
+ */
+export const benjaminiHochberg = (pValues: number[]): number[] => {
+  const m = pValues.length;
+  const order = pValues.map((p, i) => i).sort((a, b) => pValues[a] - pValues[b]);
+  const adjusted = new Array<number>(m);
+  let running = 1;
+
+  for (let rank = m; rank >= 1; rank--) {
+    const i = order[rank - 1];
+    running = Math.min(running, (pValues[i] * m) / rank);
+    adjusted[i] = running;
+  }
+
+  return adjusted;
+};
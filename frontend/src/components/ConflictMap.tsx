@@ -32,14 +32,14 @@ function FitBounds({ conflicts }: { conflicts: Conflict[] }) {
 }
 
 // Get marker color based on fatality count
-const getMarkerColor = (fatalities?: number): string => {
+const getMarkerColor = (fatalities?: number | null): string => {
   if (!fatalities || fatalities === 0) return '#EAB308'; // yellow-500
   if (fatalities < 10) return '#F97316'; // orange-500
   return '#EF4444'; // red-500
 };
 
 // Get marker size based on fatality count
-const getMarkerSize = (fatalities?: number): number => {
+const getMarkerSize = (fatalities?: number | null): number => {
   if (!fatalities || fatalities === 0) return 8;
   if (fatalities < 5) return 10;
   if (fatalities < 15) return 12;
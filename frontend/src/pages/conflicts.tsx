@@ -19,7 +19,7 @@ import { format } from 'date-fns';
 import toast from 'react-hot-toast';
 import Layout from '@/components/Layout';
 import ProtectedRoute from '@/components/ProtectedRoute';
-import { conflictsApi, Conflict } from '@/utils/api';
+import { conflictsApi, eventTypesApi, Conflict, ExportFormat } from '@/utils/api';
 
 interface FilterForm {
   search: string;
@@ -32,6 +32,18 @@ interface FilterForm {
   sortOrder: string;
 }
 
+const EXPORT_OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'xlsx', label: 'Excel' },
+  { format: 'geojson', label: 'GeoJSON' },
+  { format: 'kml', label: 'KML' },
+  { format: 'gpkg', label: 'GeoPackage' },
+  { format: 'json', label: 'JSON' },
+];
+
+// Sort keys the export can stream in; other list sorts fall back to date
+const EXPORT_SORT_FIELDS = ['date', 'country', 'eventType'];
+
 export default function Conflicts() {
   const [page, setPage] = useState(1);
   const [showFilters, setShowFilters] = useState(false);
@@ -67,6 +79,7 @@ export default function Conflicts() {
       sortOrder: filters.sortOrder
     };
 
+    if (filters.search) params.q = filters.search;
     if (filters.country) params.country = filters.country;
     if (filters.region) params.region = filters.region;
     if (filters.eventType) params.eventType = filters.eventType;
@@ -93,35 +106,38 @@ export default function Conflicts() {
         const conflicts = data.data.conflicts;
         const regions = [...new Set(conflicts.map(c => c.region))].sort();
         const countries = [...new Set(conflicts.map(c => c.country))].sort();
-        const eventTypes = [...new Set(conflicts.map(c => c.eventType))].sort();
-        return { regions, countries, eventTypes };
+        return { regions, countries };
       }
     }
   );
 
-  const handleExport = async (format: 'json' | 'csv') => {
+  // Event types come from the managed taxonomy rather than the sampled data
+  const { data: eventTypes } = useQuery(
+    'eventTypes',
+    () => eventTypesApi.getEventTypes(),
+    {
+      select: (data) => data.data.eventTypes.map(type => type.name),
+    }
+  );
+
+  const handleExport = async (format: ExportFormat) => {
     try {
-      const response = await conflictsApi.exportData(format);
-
-      if (format === 'csv') {
-        const blob = new Blob([response.data], { type: 'text/csv' });
-        const url = window.URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = 'conflicts.csv';
-        a.click();
-        window.URL.revokeObjectURL(url);
-      } else {
-        const blob = new Blob([JSON.stringify(response.data, null, 2)], { type: 'application/json' });
-        const url = window.URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = 'conflicts.json';
-        a.click();
-        window.URL.revokeObjectURL(url);
+      // The export takes the list filters, but not paging or the list-only sort keys
+      const { page: _page, limit: _limit, sortBy, sortOrder, ...exportParams } = queryParams;
+      if (EXPORT_SORT_FIELDS.includes(sortBy)) {
+        Object.assign(exportParams, { sortBy, sortOrder });
       }
 
-      toast.success(`Data exported as ${format.toUpperCase()}`);
+      const response = await conflictsApi.exportData(format, exportParams);
+
+      const url = window.URL.createObjectURL(response.data);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `conflicts.${format}`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+
+      toast.success(`Data exported as ${EXPORT_OPTIONS.find(option => option.format === format)?.label}`);
     } catch (error) {
       toast.error('Export failed');
     }
@@ -175,20 +191,16 @@ export default function Conflicts() {
                 <p className="text-gray-600 mt-2">Browse and analyze conflict data</p>
               </div>
               <div className="flex gap-2">
-                <button
-                  onClick={() => handleExport('csv')}
-                  className="btn-secondary flex items-center"
-                >
-                  <Download className="w-4 h-4 mr-2" />
-                  Export CSV
-                </button>
-                <button
-                  onClick={() => handleExport('json')}
-                  className="btn-primary flex items-center"
-                >
-                  <Download className="w-4 h-4 mr-2" />
-                  Export JSON
-                </button>
+                {EXPORT_OPTIONS.map(({ format, label }) => (
+                  <button
+                    key={format}
+                    onClick={() => handleExport(format)}
+                    className={format === 'json' ? 'btn-primary flex items-center' : 'btn-secondary flex items-center'}
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    Export {label}
+                  </button>
+                ))}
               </div>
             </div>
           </div>
@@ -206,6 +218,16 @@ export default function Conflicts() {
               </button>
             </div>
 
+            <div className="relative mb-4">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                {...register('search')}
+                placeholder="Search titles and descriptions"
+                className="input-field w-full pl-9"
+              />
+            </div>
+
             {showFilters && (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
                 <div>
@@ -238,7 +260,7 @@ export default function Conflicts() {
                   </label>
                   <select {...register('eventType')} className="input-field w-full">
                     <option value="">All Event Types</option>
-                    {regionsData?.eventTypes.map(type => (
+                    {eventTypes?.map(type => (
                       <option key={type} value={type}>{type}</option>
                     ))}
                   </select>
@@ -363,7 +385,7 @@ export default function Conflicts() {
                         </span>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {conflict.fatalities ? (
+                        {conflict.fatalities != null ? (
                           <div className="flex items-center">
                             <Users className="w-4 h-4 mr-2 text-red-400" />
                             {conflict.fatalities.toLocaleString()}
@@ -491,7 +513,14 @@ export default function Conflicts() {
                     </div>
                     <div>
                       <h4 className="font-semibold text-gray-900">Fatalities</h4>
-                      <p className="text-gray-700">{selectedConflict.fatalities || 'Not reported'}</p>
+                      <p className="text-gray-700">
+                        {selectedConflict.fatalities ?? 'Not reported'}
+                        {(selectedConflict.fatalitiesMin != null || selectedConflict.fatalitiesMax != null) && (
+                          <span className="text-gray-500 text-sm ml-2">
+                            (range {selectedConflict.fatalitiesMin ?? '?'}–{selectedConflict.fatalitiesMax ?? '?'})
+                          </span>
+                        )}
+                      </p>
                     </div>
                     <div>
                       <h4 className="font-semibold text-gray-900">Source</h4>
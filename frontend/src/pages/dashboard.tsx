@@ -57,6 +57,13 @@ function StatCard({ title, value, icon: Icon, trend, color }: StatCardProps) {
   );
 }
 
+// Number of most recent months shown in the trend chart
+const TREND_MONTHS = 12;
+
+// "2023-04" -> "Apr 2023"
+const formatMonth = (period: string) =>
+  new Date(`${period}-01T00:00:00Z`).toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' });
+
 export default function Dashboard() {
   const { data: stats, isLoading } = useQuery(
     'conflict-stats',
@@ -71,6 +78,17 @@ export default function Dashboard() {
     () => conflictsApi.getConflicts({ limit: 5, sortBy: 'date', sortOrder: 'desc' })
   );
 
+  const { data: monthly } = useQuery(
+    'conflict-timeseries',
+    () => conflictsApi.getTimeseries({ interval: 'month' }),
+    {
+      select: (data) => ({
+        periods: data.data.periods.slice(-TREND_MONTHS),
+        events: (data.data.series[0]?.events || []).slice(-TREND_MONTHS),
+      }),
+    }
+  );
+
   if (isLoading || !stats) {
     return (
       <ProtectedRoute>
@@ -113,13 +131,12 @@ export default function Dashboard() {
     ],
   };
 
-  // Sample trend data (in real app, this would come from API)
   const trendData = {
-    labels: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun'],
+    labels: (monthly?.periods || []).map(formatMonth),
     datasets: [
       {
         label: 'Monthly Conflicts',
-        data: [65, 59, 80, 81, 56, 55],
+        data: monthly?.events || [],
         borderColor: '#3B82F6',
         backgroundColor: 'rgba(59, 130, 246, 0.1)',
         fill: true,
@@ -163,7 +180,7 @@ export default function Dashboard() {
               title="Recent Conflicts"
               value={statsData.recentConflicts}
               icon={Calendar}
-              trend="Last 30 days"
+              trend={`Last ${statsData.recentDays} days`}
               color="bg-blue-500"
             />
             <StatCard
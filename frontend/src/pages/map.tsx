@@ -14,7 +14,7 @@ import {
 import { format } from 'date-fns';
 import Layout from '@/components/Layout';
 import ProtectedRoute from '@/components/ProtectedRoute';
-import { conflictsApi, Conflict } from '@/utils/api';
+import { conflictsApi, eventTypesApi, Conflict } from '@/utils/api';
 
 // Dynamic import for the map component to avoid SSR issues
 const DynamicMap = dynamic(() => import('@/components/ConflictMap'), {
@@ -69,6 +69,7 @@ export default function MapView() {
     if (filters.eventType) params.eventType = filters.eventType;
     if (filters.startDate) params.startDate = filters.startDate;
     if (filters.endDate) params.endDate = filters.endDate;
+    if (filters.minFatalities > 0) params.minFatalities = filters.minFatalities;
 
     return params;
   }, [filters]);
@@ -87,23 +88,22 @@ export default function MapView() {
         const conflicts = data.data.conflicts;
         const regions = [...new Set(conflicts.map(c => c.region))].sort();
         const countries = [...new Set(conflicts.map(c => c.country))].sort();
-        const eventTypes = [...new Set(conflicts.map(c => c.eventType))].sort();
-        return { regions, countries, eventTypes };
+        return { regions, countries };
       }
     }
   );
 
-  // Filter conflicts by minimum fatalities
-  const filteredConflicts = useMemo(() => {
-    if (!data?.data.conflicts) return [];
+  // Event types come from the managed taxonomy rather than the sampled data
+  const { data: eventTypes } = useQuery(
+    'eventTypes',
+    () => eventTypesApi.getEventTypes(),
+    {
+      select: (data) => data.data.eventTypes.map(type => type.name),
+    }
+  );
 
-    return data.data.conflicts.filter(conflict => {
-      if (filters.minFatalities > 0) {
-        return (conflict.fatalities || 0) >= filters.minFatalities;
-      }
-      return true;
-    });
-  }, [data?.data.conflicts, filters.minFatalities]);
+  // Fatality filtering happens on the server, so the map shows what was fetched
+  const conflicts = useMemo(() => data?.data.conflicts || [], [data?.data.conflicts]);
 
   const clearFilters = () => {
     reset();
@@ -111,11 +111,11 @@ export default function MapView() {
 
   // Group conflicts by event type for legend
   const conflictStats = useMemo(() => {
-    if (!filteredConflicts.length) return {};
+    if (!conflicts.length) return {};
 
     const stats: Record<string, { count: number; fatalities: number }> = {};
 
-    filteredConflicts.forEach(conflict => {
+    conflicts.forEach(conflict => {
       const type = conflict.eventType;
       if (!stats[type]) {
         stats[type] = { count: 0, fatalities: 0 };
@@ -125,7 +125,7 @@ export default function MapView() {
     });
 
     return stats;
-  }, [filteredConflicts]);
+  }, [conflicts]);
 
   return (
     <ProtectedRoute>
@@ -154,7 +154,7 @@ export default function MapView() {
                   <div>
                     <p className="text-sm font-medium text-gray-500">Total Conflicts</p>
                     <p className="text-2xl font-semibold text-gray-900">
-                      {filteredConflicts.length.toLocaleString()}
+                      {conflicts.length.toLocaleString()}
                     </p>
                   </div>
                 </div>
@@ -165,7 +165,7 @@ export default function MapView() {
                   <div>
                     <p className="text-sm font-medium text-gray-500">Total Fatalities</p>
                     <p className="text-2xl font-semibold text-gray-900">
-                      {filteredConflicts.reduce((sum, c) => sum + (c.fatalities || 0), 0).toLocaleString()}
+                      {conflicts.reduce((sum, c) => sum + (c.fatalities || 0), 0).toLocaleString()}
                     </p>
                   </div>
                 </div>
@@ -176,7 +176,7 @@ export default function MapView() {
                   <div>
                     <p className="text-sm font-medium text-gray-500">Countries Affected</p>
                     <p className="text-2xl font-semibold text-gray-900">
-                      {new Set(filteredConflicts.map(c => c.country)).size}
+                      {new Set(conflicts.map(c => c.country)).size}
                     </p>
                   </div>
                 </div>
@@ -219,7 +219,7 @@ export default function MapView() {
                   </label>
                   <select {...register('eventType')} className="input-field w-full">
                     <option value="">All Event Types</option>
-                    {regionsData?.eventTypes.map(type => (
+                    {eventTypes?.map(type => (
                       <option key={type} value={type}>{type}</option>
                     ))}
                   </select>
@@ -287,7 +287,7 @@ export default function MapView() {
                 ) : (
                   <div className="h-96 rounded-lg overflow-hidden">
                     <DynamicMap
-                      conflicts={filteredConflicts}
+                      conflicts={conflicts}
                       onMarkerClick={setSelectedConflict}
                     />
                   </div>
@@ -407,7 +407,7 @@ export default function MapView() {
                       <h4 className="font-semibold text-gray-900">Fatalities</h4>
                       <div className="flex items-center text-gray-700">
                         <Users className="w-4 h-4 mr-2" />
-                        {selectedConflict.fatalities ? selectedConflict.fatalities.toLocaleString() : 'Not reported'}
+                        {selectedConflict.fatalities != null ? selectedConflict.fatalities.toLocaleString() : 'Not reported'}
                       </div>
                     </div>
                   </div>
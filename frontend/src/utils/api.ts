@@ -52,16 +52,42 @@ export interface Conflict {
   latitude: number;
   longitude: number;
   date: string;
-  fatalities?: number;
+  fatalities?: number | null;
+  fatalitiesMin?: number | null;
+  fatalitiesMax?: number | null;
+  datePrecision?: number | null;
+  locationPrecision?: number | null;
   eventType: string;
+  subEventType?: string | null;
   source: string;
   createdAt: string;
+  search?: {
+    rank: number;
+    title: string;
+    snippet: string | null;
+  };
+}
+
+export interface FatalityRange {
+  low: number;
+  best: number;
+  high: number;
+  unknownCount: number;
 }
 
 export interface ConflictStats {
   totalConflicts: number;
   totalFatalities: number;
+  fatalityRange: FatalityRange;
+  fatalityPercentiles: Record<string, number | null>;
+  unknownFatalitiesShare: number;
+  recentDays: number;
   recentConflicts: number;
+  topCountries: Array<{
+    country: string;
+    count: number;
+    fatalities: number;
+  }>;
   conflictsByRegion: Array<{
     region: string;
     count: number;
@@ -72,6 +98,34 @@ export interface ConflictStats {
   }>;
 }
 
+export interface Timeseries {
+  interval: 'day' | 'week' | 'month' | 'year';
+  groupBy: 'region' | 'country' | 'eventType' | null;
+  periods: string[];
+  series: Array<{
+    group: string | null;
+    events: number[];
+    fatalities: number[];
+  }>;
+}
+
+export interface SubEventType {
+  id: string;
+  name: string;
+  description?: string | null;
+  eventCount: number;
+}
+
+export interface EventType {
+  id: string;
+  name: string;
+  description?: string | null;
+  eventCount: number;
+  subEventTypes: SubEventType[];
+}
+
+export type ExportFormat = 'json' | 'csv' | 'xlsx' | 'geojson' | 'kml' | 'gpkg';
+
 export interface AuthResponse {
   message: string;
   token: string;
@@ -95,11 +149,14 @@ export const conflictsApi = {
   getConflict: (id: string) =>
     api.get<Conflict>(`/api/conflicts/${id}`),
 
-  getStats: () =>
-    api.get<ConflictStats>('/api/conflicts/stats'),
+  getStats: (params?: any) =>
+    api.get<ConflictStats>('/api/conflicts/stats', { params }),
+
+  getTimeseries: (params?: any) =>
+    api.get<Timeseries>('/api/conflicts/timeseries', { params }),
 
-  exportData: (format = 'json') =>
-    api.get(`/api/conflicts/export`, { params: { format } }),
+  exportData: (format: ExportFormat = 'json', params?: any) =>
+    api.get<Blob>(`/api/conflicts/export`, { params: { ...params, format }, responseType: 'blob' }),
 };
 
 // Regions API
@@ -109,4 +166,10 @@ export const regionsApi = {
 
   getRegionConflicts: (region: string) =>
     api.get(`/api/regions/${region}/conflicts`),
+};
+
+// Event Types API
+export const eventTypesApi = {
+  getEventTypes: () =>
+    api.get<{eventTypes: EventType[]}>('/api/event-types'),
 };
\ No newline at end of file
@@ -22,6 +22,7 @@ docker exec conflict-backend npx prisma db push --accept-data-loss || {
     docker exec conflict-backend npx prisma generate
     docker exec conflict-backend npx prisma db push --accept-data-loss
 }
+docker exec conflict-backend npm run prisma:search
 
 echo "🌱 Seeding database with sample data..."
 docker exec conflict-backend npm run seed